@@ -3,24 +3,56 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { RequireAccess } from "@/components/RequireAccess";
+import { AuthProvider } from "@/hooks/use-auth";
+import AdminEmployees from "./pages/AdminEmployees";
+import AdminFleet from "./pages/AdminFleet";
+import AdminGarages from "./pages/AdminGarages";
+import AdminRoutes from "./pages/AdminRoutes";
+import AdminStops from "./pages/AdminStops";
+import AdminSubjects from "./pages/AdminSubjects";
+import AdminUsers from "./pages/AdminUsers";
+import Auth from "./pages/Auth";
+import Dashboard from "./pages/Dashboard";
+import Heatmap from "./pages/Heatmap";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Profile from "./pages/Profile";
+import ReportDetail from "./pages/ReportDetail";
+import Reports from "./pages/Reports";
+import Timetable from "./pages/Timetable";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<RequireAccess page="newReport"><Index /></RequireAccess>} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/profile" element={<RequireAccess page="profile"><Profile /></RequireAccess>} />
+            <Route path="/reports" element={<RequireAccess page="reports"><Reports /></RequireAccess>} />
+            <Route path="/reports/:id" element={<RequireAccess page="reports"><ReportDetail /></RequireAccess>} />
+            <Route path="/dashboard" element={<RequireAccess page="dashboard"><Dashboard /></RequireAccess>} />
+            <Route path="/heatmap" element={<RequireAccess page="heatmap"><Heatmap /></RequireAccess>} />
+            <Route path="/timetable" element={<RequireAccess page="timetable"><Timetable /></RequireAccess>} />
+            <Route path="/admin/users" element={<RequireAccess page="adminUsers"><AdminUsers /></RequireAccess>} />
+            <Route path="/admin/garages" element={<RequireAccess page="adminGarages"><AdminGarages /></RequireAccess>} />
+            <Route path="/admin/subjects" element={<RequireAccess page="adminSubjects"><AdminSubjects /></RequireAccess>} />
+            <Route path="/admin/routes" element={<RequireAccess page="adminRoutes"><AdminRoutes /></RequireAccess>} />
+            <Route path="/admin/fleet" element={<RequireAccess page="adminFleet"><AdminFleet /></RequireAccess>} />
+            <Route path="/admin/employees" element={<RequireAccess page="adminEmployees"><AdminEmployees /></RequireAccess>} />
+            <Route path="/admin/stops" element={<RequireAccess page="adminStops"><AdminStops /></RequireAccess>} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
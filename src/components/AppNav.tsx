@@ -0,0 +1,48 @@
+import { NavLink } from "react-router-dom";
+import { cn } from "@/lib/utils";
+import { UserMenu } from "@/components/UserMenu";
+import { useAuth } from "@/hooks/use-auth";
+import { canAccess, type Page } from "@/lib/access";
+
+const navItems: { page: Page; to: string; label: string }[] = [
+  { page: "newReport", to: "/", label: "New Report" },
+  { page: "reports", to: "/reports", label: "Reports" },
+  { page: "dashboard", to: "/dashboard", label: "Dashboard" },
+  { page: "heatmap", to: "/heatmap", label: "Heatmap" },
+  { page: "timetable", to: "/timetable", label: "Timetable" },
+  { page: "adminUsers", to: "/admin/users", label: "Users" },
+  { page: "adminGarages", to: "/admin/garages", label: "Garages" },
+  { page: "adminSubjects", to: "/admin/subjects", label: "Subjects" },
+  { page: "adminRoutes", to: "/admin/routes", label: "Routes" },
+  { page: "adminFleet", to: "/admin/fleet", label: "Fleet" },
+  { page: "adminEmployees", to: "/admin/employees", label: "Employees" },
+  { page: "adminStops", to: "/admin/stops", label: "Stops" },
+];
+
+export function AppNav() {
+  const { roles } = useAuth();
+  const visibleItems = navItems.filter((item) => canAccess(item.page, roles));
+
+  return (
+    <nav className="flex flex-wrap items-center justify-between gap-2 mb-4 print:hidden">
+      <div className="flex flex-wrap items-center gap-1">
+        {visibleItems.map((item) => (
+          <NavLink
+            key={item.to}
+            to={item.to}
+            end
+            className={({ isActive }) =>
+              cn(
+                "rounded-md px-3 py-2 text-sm font-medium transition-colors hover:bg-accent hover:text-accent-foreground",
+                isActive ? "bg-accent text-accent-foreground" : "text-muted-foreground"
+              )
+            }
+          >
+            {item.label}
+          </NavLink>
+        ))}
+      </div>
+      <UserMenu />
+    </nav>
+  );
+}
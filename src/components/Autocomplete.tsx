@@ -0,0 +1,151 @@
+import { forwardRef, useMemo, useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+
+export interface AutocompleteOption {
+  // Tells apart options that share a value, such as two employees with the same name
+  id?: string;
+  value: string;
+  label?: string;
+  description?: string;
+  // Extra text the option can be found by
+  keywords?: string[];
+}
+
+// Reference lists can run to thousands of entries, so only the best matches are shown
+const MAX_RESULTS = 50;
+
+interface AutocompleteProps extends Omit<ButtonProps, "value" | "onChange"> {
+  value: string;
+  onChange: (value: string) => void;
+  options: AutocompleteOption[];
+  placeholder?: string;
+  searchPlaceholder?: string;
+  emptyText?: string;
+  // Offer the typed text as a value when it matches no option
+  allowCustom?: boolean;
+  normalize?: (value: string) => string;
+  // Called with the chosen option, e.g. to fill related fields
+  onSelectOption?: (option: AutocompleteOption) => void;
+  // For options searched on the server as the user types
+  onSearchChange?: (search: string) => void;
+  loading?: boolean;
+}
+
+const matches = (option: AutocompleteOption, search: string) =>
+  [option.value, option.label, option.description, ...(option.keywords ?? [])].some((text) =>
+    text?.toLowerCase().includes(search)
+  );
+
+// A searchable picker built on the command menu, used for reference data fields.
+export const Autocomplete = forwardRef<HTMLButtonElement, AutocompleteProps>(
+  (
+    {
+      value,
+      onChange,
+      options,
+      placeholder = "Select...",
+      searchPlaceholder = "Search...",
+      emptyText = "No matches found.",
+      allowCustom = false,
+      normalize = (text) => text.trim(),
+      onSelectOption,
+      onSearchChange,
+      loading = false,
+      className,
+      ...props
+    },
+    ref
+  ) => {
+    const [open, setOpen] = useState(false);
+    const [search, setSearch] = useState("");
+
+    const results = useMemo(() => {
+      const needle = search.trim().toLowerCase();
+      const found = needle ? options.filter((option) => matches(option, needle)) : options;
+      return found.slice(0, MAX_RESULTS);
+    }, [options, search]);
+
+    const custom = normalize(search);
+    const offerCustom = allowCustom && custom !== "" && !options.some((option) => option.value === custom);
+    const selected = options.find((option) => option.value === value);
+
+    const updateSearch = (next: string) => {
+      setSearch(next);
+      onSearchChange?.(next);
+    };
+
+    const select = (next: string) => {
+      onChange(next);
+      updateSearch("");
+      setOpen(false);
+    };
+
+    return (
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("w-full justify-between bg-input border-border font-normal", !value && "text-muted-foreground", className)}
+            {...props}
+          >
+            <span className="truncate">{value ? selected?.label ?? value : placeholder}</span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] min-w-64 p-0 bg-popover border-border" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput value={search} onValueChange={updateSearch} placeholder={searchPlaceholder} />
+            <CommandList>
+              <CommandEmpty>{loading ? "Searching..." : emptyText}</CommandEmpty>
+              {offerCustom && (
+                <CommandGroup>
+                  <CommandItem value={`custom:${custom}`} onSelect={() => select(custom)}>
+                    Use "{custom}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+              {results.length > 0 && (
+                <CommandGroup>
+                  {results.map((option) => (
+                    <CommandItem
+                      key={option.id ?? option.value}
+                      value={option.id ?? option.value}
+                      onSelect={() => {
+                        select(option.value);
+                        onSelectOption?.(option);
+                      }}
+                    >
+                      <Check className={cn("mr-2 h-4 w-4", option.value === value ? "opacity-100" : "opacity-0")} />
+                      <div className="min-w-0">
+                        <div className="truncate">{option.label ?? option.value}</div>
+                        {option.description && (
+                          <div className="truncate text-xs text-muted-foreground">{option.description}</div>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+);
+Autocomplete.displayName = "Autocomplete";
@@ -0,0 +1,476 @@
+import { useState } from "react";
+import { useForm, type UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format, parse, parseISO } from "date-fns";
+import { Video } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useGarages } from "@/hooks/use-garages";
+import { useCctvRequest, useCreateCctvRequest, useUpdateCctvRequest } from "@/hooks/use-reports";
+import {
+  cctvCameras,
+  cctvCountdown,
+  cctvDeadline,
+  cctvRequestStatusLabels,
+  cctvRequestStatusStyles,
+  cctvRequestStatuses,
+  cctvRetentionDays,
+  defaultCctvWindow,
+  toCctvWindow,
+  type CctvRequest,
+} from "@/lib/cctv";
+import type { FormData } from "@/lib/officials-report";
+import type { ReportRecord } from "@/lib/reports";
+import { cn } from "@/lib/utils";
+
+interface CctvCameraPickerProps {
+  id: string;
+  value: string[];
+  onChange: (cameras: string[]) => void;
+}
+
+export function CctvCameraPicker({ id, value, onChange }: CctvCameraPickerProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {cctvCameras.map((camera) => (
+        <div key={camera} className="flex items-center gap-2">
+          <Checkbox
+            id={`${id}-${camera}`}
+            checked={value.includes(camera)}
+            onCheckedChange={(checked) =>
+              onChange(checked === true ? [...value, camera] : value.filter((selected) => selected !== camera))
+            }
+          />
+          <Label htmlFor={`${id}-${camera}`} className="font-normal">
+            {camera}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function CctvCountdownBadge({ deadline }: { deadline: Date }) {
+  const countdown = cctvCountdown(deadline);
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        "whitespace-nowrap",
+        countdown.overdue
+          ? "border-transparent bg-destructive text-destructive-foreground hover:bg-destructive"
+          : countdown.urgent && "border-transparent bg-notice-background text-notice-foreground hover:bg-notice-background"
+      )}
+      title={`Footage is overwritten ${format(deadline, "PPP p")}`}
+    >
+      {countdown.label}
+    </Badge>
+  );
+}
+
+// The optional request on the report form, sent with the report
+export function CctvRequestSection({ form }: { form: UseFormReturn<FormData> }) {
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+  const [requested, fleetNumber, garage, dateOfIncident, windowStart] = form.watch([
+    "cctvRequested",
+    "fleetNumber",
+    "garage",
+    "dateOfIncident",
+    "cctvWindowStart",
+  ]);
+
+  const toggle = (checked: boolean) => {
+    form.setValue("cctvRequested", checked);
+    // Start from the window around the incident time
+    if (checked && !form.getValues("cctvWindowStart")) {
+      const suggested = defaultCctvWindow(form.getValues("timeOfIncident"));
+      form.setValue("cctvWindowStart", suggested.start);
+      form.setValue("cctvWindowEnd", suggested.end);
+    }
+  };
+
+  const windowStartAt = dateOfIncident && windowStart ? parse(windowStart, "HH:mm", dateOfIncident) : null;
+  const deadline =
+    windowStartAt && !Number.isNaN(windowStartAt.getTime())
+      ? cctvDeadline(windowStartAt, cctvRetentionDays(garages, garage))
+      : null;
+
+  return (
+    <div className="space-y-6">
+      <FormField
+        control={form.control}
+        name="cctvRequested"
+        render={({ field }) => (
+          <FormItem className="flex items-center justify-between gap-4">
+            <div>
+              <FormLabel className="text-foreground font-medium">Request CCTV Footage</FormLabel>
+              <FormDescription>
+                {fleetNumber ? `From fleet number ${fleetNumber}` : "From the vehicle in Location Information"}
+                {deadline && ` · Overwritten ${format(deadline, "PPP")}`}
+              </FormDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              {requested && deadline && <CctvCountdownBadge deadline={deadline} />}
+              <FormControl>
+                <Switch checked={!!field.value} onCheckedChange={toggle} />
+              </FormControl>
+            </div>
+          </FormItem>
+        )}
+      />
+
+      {requested && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+              control={form.control}
+              name="cctvWindowStart"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-foreground font-medium">Footage From *</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="time" className="bg-input border-border" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="cctvWindowEnd"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-foreground font-medium">Footage To *</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="time" className="bg-input border-border" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="cctvCameras"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-foreground font-medium">Cameras *</FormLabel>
+                <CctvCameraPicker id="report-cctv-camera" value={field.value ?? []} onChange={field.onChange} />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+const timeField = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Enter a time as HH:MM");
+
+const requestSchema = z.object({
+  windowStart: timeField,
+  windowEnd: timeField,
+  cameras: z.array(z.string()).min(1, "Choose at least one camera"),
+});
+
+type RequestFormData = z.infer<typeof requestSchema>;
+
+function RequestCctvDialog({ report, onClose }: { report: ReportRecord; onClose: () => void }) {
+  const { toast } = useToast();
+  const { mutateAsync } = useCreateCctvRequest();
+  const suggested = defaultCctvWindow(report.time_of_incident.slice(0, 5));
+
+  const form = useForm<RequestFormData>({
+    resolver: zodResolver(requestSchema),
+    defaultValues: { windowStart: suggested.start, windowEnd: suggested.end, cameras: [] },
+  });
+
+  const onSubmit = async (values: RequestFormData) => {
+    try {
+      await mutateAsync({
+        reportId: report.id,
+        input: {
+          fleet_number: report.fleet_number,
+          ...toCctvWindow(parseISO(report.date_of_incident), values.windowStart, values.windowEnd),
+          cameras: values.cameras,
+        },
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "CCTV Not Requested",
+        description: error instanceof Error ? error.message : "The CCTV request could not be saved.",
+      });
+      return;
+    }
+
+    toast({ title: "CCTV Requested", description: `Footage from fleet number ${report.fleet_number} has been requested.` });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request CCTV</DialogTitle>
+          <DialogDescription>
+            Fleet number {report.fleet_number} on {format(parseISO(report.date_of_incident), "PPP")}.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="windowStart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From *</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="time" className="bg-input border-border" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="windowEnd"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>To *</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="time" className="bg-input border-border" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="cameras"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cameras *</FormLabel>
+                  <CctvCameraPicker id="cctv-request-camera" value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Request CCTV
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const updateSchema = z.object({
+  status: z.enum(cctvRequestStatuses),
+  notes: z.string().optional(),
+});
+
+type UpdateFormData = z.infer<typeof updateSchema>;
+
+function UpdateCctvDialog({ request, onClose }: { request: CctvRequest; onClose: () => void }) {
+  const { toast } = useToast();
+  const { mutateAsync } = useUpdateCctvRequest();
+
+  const form = useForm<UpdateFormData>({
+    resolver: zodResolver(updateSchema),
+    defaultValues: { status: request.status, notes: request.notes ?? "" },
+  });
+
+  const onSubmit = async (values: UpdateFormData) => {
+    try {
+      await mutateAsync({ id: request.id, status: values.status, notes: values.notes?.trim() || null });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "CCTV Request Not Updated",
+        description: error instanceof Error ? error.message : "The CCTV request could not be updated.",
+      });
+      return;
+    }
+
+    toast({ title: "CCTV Request Updated", description: `The footage is now ${cctvRequestStatusLabels[values.status]}.` });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Update CCTV Request</DialogTitle>
+          <DialogDescription>Record whether the footage was retrieved, and where it is kept.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Status *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="bg-input border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-popover border-border">
+                      {cctvRequestStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {cctvRequestStatusLabels[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={3} className="bg-input border-border resize-none" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The report's CCTV request, how long is left before the footage is overwritten, and its retrieval status.
+export function CctvRequestCard({ report, className }: { report: ReportRecord; className?: string }) {
+  const { user, hasRole } = useAuth();
+  const { data: request, isLoading } = useCctvRequest(report.id);
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+  const [dialog, setDialog] = useState<"request" | "update" | null>(null);
+
+  // Keep in step with the cctv_requests policies
+  const isReviewer = hasRole("garage_manager", "hub_leader", "admin");
+  const canRequest = isReviewer || report.submitted_by === user?.id;
+
+  // Nothing to show to people who could not act on it
+  if (isLoading || (!request && !canRequest)) return null;
+
+  const deadline = request
+    ? cctvDeadline(parseISO(request.window_start), cctvRetentionDays(garages, report.garage))
+    : null;
+
+  return (
+    <Card className={cn("bg-form-background border-border/50 shadow-lg print:shadow-none print:break-inside-avoid", className)}>
+      <CardHeader className="bg-form-section print:py-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-xl font-semibold text-foreground">CCTV</CardTitle>
+          {request && (
+            <div className="flex items-center gap-2">
+              {request.status === "requested" && deadline && <CctvCountdownBadge deadline={deadline} />}
+              <Badge className={cctvRequestStatusStyles[request.status]}>
+                {cctvRequestStatusLabels[request.status]}
+              </Badge>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 print:p-4 space-y-6">
+        {request && deadline ? (
+          <dl className="grid grid-cols-1 md:grid-cols-2 print:grid-cols-2 gap-6">
+            <div>
+              <dt className="text-sm font-medium text-muted-foreground">Fleet Number</dt>
+              <dd className="mt-1">{request.fleet_number}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-muted-foreground">Footage Window</dt>
+              <dd className="mt-1">
+                {format(parseISO(request.window_start), "PPP HH:mm")} – {format(parseISO(request.window_end), "HH:mm")}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-muted-foreground">Cameras</dt>
+              <dd className="mt-1">{request.cameras.join(", ") || "N/A"}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-muted-foreground">Overwritten</dt>
+              <dd className="mt-1">{format(deadline, "PPP p")}</dd>
+            </div>
+            {request.notes && (
+              <div className="md:col-span-2 print:col-span-2">
+                <dt className="text-sm font-medium text-muted-foreground">Notes</dt>
+                <dd className="mt-1 whitespace-pre-wrap">{request.notes}</dd>
+              </div>
+            )}
+          </dl>
+        ) : (
+          <p className="text-muted-foreground">No CCTV footage has been requested for this report.</p>
+        )}
+
+        {(request ? isReviewer : canRequest) && (
+          <div className="flex flex-wrap gap-2 print:hidden">
+            <Button variant="outline" onClick={() => setDialog(request ? "update" : "request")}>
+              <Video className="mr-2 h-4 w-4" />
+              {request ? "Update Status" : "Request CCTV"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      {dialog === "request" && <RequestCctvDialog report={report} onClose={() => setDialog(null)} />}
+      {dialog === "update" && request && <UpdateCctvDialog request={request} onClose={() => setDialog(null)} />}
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, type ChangeEvent } from "react";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { parseCsvRecords, type CsvRecord } from "@/lib/csv";
+
+// Only the first few lines of each list are shown; the rest are counted
+const MAX_LISTED_LINES = 10;
+
+interface CsvImportDialogProps<T> {
+  title: string;
+  // Columns shown to the admin as the expected file layout
+  columns: string[];
+  // Returns the row to import, or a message explaining why the line was skipped
+  parseRecord: (record: CsvRecord) => T | string;
+  // The column the import upserts on; a file may only set each key once per import.
+  // Without it every line is imported.
+  rowKey?: (row: T) => string;
+  onImport: (rows: T[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface ParsedFile<T> {
+  name: string;
+  rows: T[];
+  // Lines that could not be imported
+  errors: string[];
+  // Lines replaced by a later line with the same key
+  replaced: string[];
+}
+
+// Problem lines, as listed under the summary
+const LineList = ({ lines, className }: { lines: string[]; className: string }) => (
+  <ul className={`list-disc pl-5 ${className}`}>
+    {lines.slice(0, MAX_LISTED_LINES).map((line) => (
+      <li key={line}>{line}</li>
+    ))}
+    {lines.length > MAX_LISTED_LINES && <li>and {lines.length - MAX_LISTED_LINES} more</li>}
+  </ul>
+);
+
+export function CsvImportDialog<T>({ title, columns, parseRecord, rowKey, onImport, onClose }: CsvImportDialogProps<T>) {
+  const { toast } = useToast();
+  const [parsed, setParsed] = useState<ParsedFile<T> | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    // Keyed so a repeated key keeps only its last line; the database cannot update
+    // the same row twice in one batch.
+    const rows = new Map<string, { row: T; line: number }>();
+    const errors: string[] = [];
+    const replaced: { line: number; message: string }[] = [];
+    parseCsvRecords(await file.text()).forEach((record, index) => {
+      // Line numbers count the header, as a spreadsheet would show them
+      const line = index + 2;
+      const result = parseRecord(record);
+      if (typeof result === "string") {
+        errors.push(`Line ${line}: ${result}`);
+        return;
+      }
+
+      const key = rowKey ? rowKey(result) : String(line);
+      const earlier = rows.get(key);
+      if (earlier) {
+        replaced.push({ line: earlier.line, message: `${key} appears again on line ${line}, which is imported instead` });
+      }
+      // Deleted first so the row keeps its place in file order
+      rows.delete(key);
+      rows.set(key, { row: result, line });
+    });
+    setParsed({
+      name: file.name,
+      rows: [...rows.values()].map(({ row }) => row),
+      errors,
+      replaced: replaced.sort((a, b) => a.line - b.line).map(({ line, message }) => `Line ${line}: ${message}`),
+    });
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    setImporting(true);
+    try {
+      await onImport(parsed.rows);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The file could not be imported.",
+      });
+      setImporting(false);
+      return;
+    }
+
+    toast({ title: "Import Complete", description: `${parsed.rows.length} rows imported from ${parsed.name}.` });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !importing && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Upload a CSV file with a header row. Columns: {columns.join(", ")}. Existing entries are updated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="csv-file">CSV File</Label>
+          <Input id="csv-file" type="file" accept=".csv,text/csv" onChange={handleFile} className="bg-input border-border" />
+        </div>
+
+        {parsed && (
+          <div className="space-y-2 text-sm">
+            <p>
+              {parsed.rows.length} rows ready to import
+              {parsed.errors.length > 0 && `, ${parsed.errors.length} skipped`}
+              {parsed.replaced.length > 0 && `, ${parsed.replaced.length} replaced by a later line`}.
+            </p>
+            {parsed.errors.length > 0 && <LineList lines={parsed.errors} className="text-destructive" />}
+            {parsed.replaced.length > 0 && <LineList lines={parsed.replaced} className="text-muted-foreground" />}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!parsed?.rows.length || importing}>
+            <Upload className="mr-2 h-4 w-4" />
+            {importing ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { FieldWarning } from "@/components/FieldWarning";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useEmployeeHistory } from "@/hooks/use-reports";
+import { useReportSubjects } from "@/hooks/use-report-subjects";
+import {
+  describeRepeatAlert,
+  historyCount,
+  historyWindowLabel,
+  historyWindows,
+  repeatAlerts,
+  type EmployeeHistoryRow,
+} from "@/lib/employee-history";
+import { defaultReportFilters, toReportSearchParams } from "@/lib/report-filters";
+import type { ReportRecord } from "@/lib/reports";
+import { cn } from "@/lib/utils";
+
+// Wait for the controller to stop typing before looking the employee up
+const LOOKUP_DELAY_MS = 500;
+
+function HistoryTable({ history }: { history: EmployeeHistoryRow[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Subject</TableHead>
+          {historyWindows.map((days) => (
+            <TableHead key={days} className="text-right">
+              Last {historyWindowLabel(days)}
+            </TableHead>
+          ))}
+          <TableHead>Most Recent</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {history.map((row) => (
+          <TableRow key={row.subject_of_report}>
+            <TableCell className="font-medium">{row.subject_of_report}</TableCell>
+            {historyWindows.map((days) => (
+              <TableCell key={days} className="text-right tabular-nums">
+                {historyCount(row, days) || "—"}
+              </TableCell>
+            ))}
+            <TableCell>{format(parseISO(row.latest_incident), "dd MMM yyyy")}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// Prior reports about the employee in a report, up to its date of incident
+export function EmployeeHistoryCard({ report, className }: { report: ReportRecord; className?: string }) {
+  const { data: subjects = [] } = useReportSubjects({ includeRetired: true });
+  const { data: history = [], isLoading, isError } = useEmployeeHistory(report.employee_number, {
+    asOf: parseISO(report.date_of_incident),
+    excludeReportId: report.id,
+  });
+  const alerts = repeatAlerts(history, subjects, report.subject_of_report);
+  const reportsLink = `/reports?${toReportSearchParams({
+    ...defaultReportFilters,
+    employeeNumber: report.employee_number,
+    sort: "date_of_incident",
+  })}`;
+
+  return (
+    <Card className={cn("bg-form-background border-border/50 shadow-lg print:shadow-none print:break-inside-avoid", className)}>
+      <CardHeader className="bg-form-section print:py-3">
+        <CardTitle className="text-xl font-semibold text-foreground">Employee History</CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 print:p-4 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Other reports about {report.employee_name} ({report.employee_number}) in the 12 months up to{" "}
+          {format(parseISO(report.date_of_incident), "dd MMM yyyy")}.
+        </p>
+
+        {alerts.map((alert) => (
+          <FieldWarning key={alert.subject}>{describeRepeatAlert(alert)}</FieldWarning>
+        ))}
+
+        {isLoading && <p className="text-muted-foreground">Loading history...</p>}
+        {isError && <p className="text-destructive">The employee's history could not be loaded.</p>}
+        {!isLoading && !isError && history.length === 0 && (
+          <p className="text-muted-foreground">No other reports in the last 12 months.</p>
+        )}
+        {history.length > 0 && <HistoryTable history={history} />}
+
+        <Button asChild variant="outline" className="print:hidden">
+          <Link to={reportsLink}>View Reports You Can Access</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface EmployeeHistorySummaryProps {
+  employeeNumber: string | undefined;
+  subject: string | undefined;
+}
+
+// Compact history under the employee number while a report is being filled in
+export function EmployeeHistorySummary({ employeeNumber, subject }: EmployeeHistorySummaryProps) {
+  const [lookup, setLookup] = useState(employeeNumber);
+  useEffect(() => {
+    const timer = setTimeout(() => setLookup(employeeNumber), LOOKUP_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [employeeNumber]);
+
+  const { data: subjects = [] } = useReportSubjects({ includeRetired: true });
+  const { data: history } = useEmployeeHistory(lookup);
+  if (!history || lookup !== employeeNumber) return null;
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No reports about this employee in the last 12 months.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm text-muted-foreground">Reports in the last 30 days / 90 days / 12 months:</p>
+      <ul className="text-sm text-muted-foreground">
+        {history.map((row) => (
+          <li key={row.subject_of_report}>
+            {row.subject_of_report}: {historyWindows.map((days) => historyCount(row, days)).join(" / ")}
+          </li>
+        ))}
+      </ul>
+      {repeatAlerts(history, subjects, subject).map((alert) => (
+        <FieldWarning key={alert.subject}>{describeRepeatAlert(alert)}</FieldWarning>
+      ))}
+    </div>
+  );
+}
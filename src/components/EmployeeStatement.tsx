@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format, parseISO } from "date-fns";
+import { MessageSquareText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useSaveEmployeeStatement } from "@/hooks/use-reports";
+import type { EmployeeStatement } from "@/lib/employee-statements";
+import type { ReportRecord } from "@/lib/reports";
+import { cn } from "@/lib/utils";
+
+const statementSchema = z.object({
+  statement: z.string().trim().min(1, "Statement is required"),
+  givenAt: z.string().min(1, "Date and time are required"),
+});
+
+type StatementFormData = z.infer<typeof statementSchema>;
+
+// datetime-local inputs take local time without a zone
+const DATETIME_LOCAL = "yyyy-MM-dd'T'HH:mm";
+
+interface StatementDialogProps {
+  report: ReportRecord;
+  statement: EmployeeStatement | null;
+  onClose: () => void;
+}
+
+function StatementDialog({ report, statement, onClose }: StatementDialogProps) {
+  const { toast } = useToast();
+  const { mutateAsync } = useSaveEmployeeStatement();
+
+  const form = useForm<StatementFormData>({
+    resolver: zodResolver(statementSchema),
+    defaultValues: {
+      statement: statement?.statement ?? "",
+      givenAt: format(statement ? parseISO(statement.given_at) : new Date(), DATETIME_LOCAL),
+    },
+  });
+
+  const onSubmit = async (values: StatementFormData) => {
+    try {
+      await mutateAsync({
+        reportId: report.id,
+        input: { statement: values.statement, given_at: new Date(values.givenAt).toISOString() },
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Statement Not Saved",
+        description: error instanceof Error ? error.message : "The employee statement could not be saved.",
+      });
+      return;
+    }
+
+    toast({ title: "Statement Saved", description: `${report.employee_name}'s statement has been saved.` });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{statement ? "Edit Employee Statement" : "Record Employee Statement"}</DialogTitle>
+          <DialogDescription>
+            {report.employee_name} ({report.employee_number})'s account of report {report.reference}.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="givenAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Given *</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="datetime-local" className="bg-input border-border" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="statement"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Statement *</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={10} className="bg-input border-border resize-none" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ReportAccountsProps {
+  report: ReportRecord;
+  statement: EmployeeStatement | null;
+  className?: string;
+}
+
+// The controller's account beside the employee's response, for reviewers.
+export function ReportAccounts({ report, statement, className }: ReportAccountsProps) {
+  const [editing, setEditing] = useState(false);
+
+  return (
+    <Card className={cn("bg-form-background border-border/50 shadow-lg print:shadow-none print:break-inside-avoid", className)}>
+      <CardHeader className="bg-form-section print:py-3">
+        <CardTitle className="text-xl font-semibold text-foreground">Accounts</CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 print:p-4 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 print:grid-cols-2 gap-6">
+          <section>
+            <h3 className="font-medium text-foreground">Controller's Account</h3>
+            <p className="text-sm text-muted-foreground">
+              {report.controller_name}, {format(parseISO(report.created_at), "PPP p")}
+            </p>
+            <p className="mt-3 whitespace-pre-wrap">{report.details_of_incident}</p>
+          </section>
+          <section className="md:border-l md:border-border md:pl-6 print:border-l print:pl-6">
+            <h3 className="font-medium text-foreground">Employee's Response</h3>
+            {statement ? (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {report.employee_name}, {format(parseISO(statement.given_at), "PPP p")}
+                  {statement.recorded_by_name && ` · Recorded by ${statement.recorded_by_name}`}
+                </p>
+                <p className="mt-3 whitespace-pre-wrap">{statement.statement}</p>
+              </>
+            ) : (
+              <p className="mt-3 text-muted-foreground">No statement has been recorded yet.</p>
+            )}
+          </section>
+        </div>
+
+        <div className="flex flex-wrap gap-2 print:hidden">
+          <Button variant="outline" onClick={() => setEditing(true)}>
+            <MessageSquareText className="mr-2 h-4 w-4" />
+            {statement ? "Edit Statement" : "Record Statement"}
+          </Button>
+        </div>
+      </CardContent>
+
+      {editing && <StatementDialog report={report} statement={statement} onClose={() => setEditing(false)} />}
+    </Card>
+  );
+}
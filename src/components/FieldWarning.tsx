@@ -0,0 +1,18 @@
+import type { ReactNode } from "react";
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface FieldWarningProps {
+  children: ReactNode;
+  className?: string;
+}
+
+// A non-blocking hint under a field that the value looks inconsistent with the rest of the report.
+export function FieldWarning({ children, className }: FieldWarningProps) {
+  return (
+    <p className={cn("flex items-start gap-1.5 text-sm font-medium text-notice-foreground", className)}>
+      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+      <span>{children}</span>
+    </p>
+  );
+}
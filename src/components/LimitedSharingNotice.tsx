@@ -0,0 +1,12 @@
+import { cn } from "@/lib/utils";
+import { LIMITED_SHARING_NOTICE } from "@/lib/officials-report";
+
+export function LimitedSharingNotice({ className }: { className?: string }) {
+  return (
+    <div className={cn("p-4 bg-notice-background border border-notice-foreground/20 rounded-lg", className)}>
+      <p className="text-center text-notice-foreground font-semibold">
+        ⚠️ {LIMITED_SHARING_NOTICE}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import type { ControllerRenderProps, UseFormReturn } from "react-hook-form";
+import { LocateFixed } from "lucide-react";
+import { Autocomplete, type AutocompleteOption } from "@/components/Autocomplete";
+import { Button } from "@/components/ui/button";
+import { FormControl, FormDescription } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useNearbyStops, useStopSearch } from "@/hooks/use-stops";
+import type { FormData } from "@/lib/officials-report";
+import { mapLink, stopDisplayName, type GeoPosition } from "@/lib/stops";
+
+const SEARCH_DELAY_MS = 250;
+
+interface LocationPickerProps {
+  form: UseFormReturn<FormData>;
+  field: ControllerRenderProps<FormData, "location">;
+}
+
+// Picks the location from the stop list, or takes free text, and records the stop
+// code and coordinates behind the display string.
+export function LocationPicker({ form, field }: LocationPickerProps) {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [term, setTerm] = useState("");
+  const [position, setPosition] = useState<GeoPosition | null>(null);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setTerm(search), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const searching = term.trim().length >= 2;
+  const { data: found = [], isFetching } = useStopSearch(term);
+  const { data: nearby = [] } = useNearbyStops(position);
+  const stops = searching ? found : nearby;
+
+  const options = stops.map((stop) => ({
+    id: stop.atco_code,
+    value: stopDisplayName(stop),
+    description: [stop.naptan_code && `Stop ${stop.naptan_code}`, stop.street].filter(Boolean).join(" · "),
+    keywords: [stop.atco_code, stop.naptan_code ?? ""],
+  }));
+
+  const [stopCode, latitude, longitude] = form.watch(["locationStopCode", "locationLatitude", "locationLongitude"]);
+
+  const setCoordinates = (coordinates: GeoPosition | null) => {
+    form.setValue("locationLatitude", coordinates?.latitude);
+    form.setValue("locationLongitude", coordinates?.longitude);
+  };
+
+  // Free text is not tied to a stop, but keeps any position taken from the device
+  const handleChange = (value: string) => {
+    field.onChange(value);
+    form.setValue("locationStopCode", undefined);
+    setCoordinates(position);
+  };
+
+  const applyStop = (option: AutocompleteOption) => {
+    const stop = stops.find((candidate) => candidate.atco_code === option.id);
+    if (!stop) return;
+    form.setValue("locationStopCode", stop.atco_code);
+    setCoordinates(
+      stop.latitude !== null && stop.longitude !== null ? { latitude: stop.latitude, longitude: stop.longitude } : position
+    );
+  };
+
+  const locate = () => {
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        const current = { latitude: coords.latitude, longitude: coords.longitude };
+        setPosition(current);
+        // A chosen stop's own coordinates are more useful than the device's
+        if (!form.getValues("locationStopCode")) setCoordinates(current);
+        setLocating(false);
+      },
+      (error) => {
+        toast({ variant: "destructive", title: "Location Unavailable", description: error.message });
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const hasCoordinates = latitude !== undefined && longitude !== undefined;
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <FormControl>
+          <Autocomplete
+            ref={field.ref}
+            value={field.value}
+            onChange={handleChange}
+            onBlur={field.onBlur}
+            onSelectOption={applyStop}
+            onSearchChange={setSearch}
+            loading={searching && isFetching}
+            options={options}
+            placeholder="Search stops or enter a location"
+            searchPlaceholder="Stop name or code..."
+            emptyText={searching ? "No stops found." : "Type a stop name or code, or use your location."}
+            allowCustom
+          />
+        </FormControl>
+        {"geolocation" in navigator && (
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={locate}
+            disabled={locating}
+            className="shrink-0 bg-input border-border hover:bg-accent"
+            aria-label="Use my location"
+            title="Use my location"
+          >
+            <LocateFixed className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {(stopCode || hasCoordinates) && (
+        <FormDescription>
+          {stopCode && `Stop ${stopCode}`}
+          {stopCode && hasCoordinates && " · "}
+          {hasCoordinates && (
+            <a
+              href={mapLink({ latitude, longitude })}
+              target="_blank"
+              rel="noreferrer"
+              className="text-primary hover:underline"
+            >
+              {latitude.toFixed(5)}, {longitude.toFixed(5)}
+            </a>
+          )}
+        </FormDescription>
+      )}
+    </>
+  );
+}
@@ -1,10 +1,9 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import { format } from "date-fns";
 import { CalendarIcon, Clock, Download } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, downloadFile } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -12,55 +11,59 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { AppNav } from "@/components/AppNav";
+import { Autocomplete, type AutocompleteOption } from "@/components/Autocomplete";
+import { EmployeeHistorySummary } from "@/components/EmployeeHistory";
+import { FieldWarning } from "@/components/FieldWarning";
+import { LocationPicker } from "@/components/LocationPicker";
+import { AttachmentPicker } from "@/components/ReportAttachments";
+import { CctvRequestSection } from "@/components/CctvRequest";
+import { WitnessFields } from "@/components/WitnessFields";
+import { DraftsMenu, ResumeDraftDialog } from "@/components/ReportDrafts";
+import { SubmissionQueue } from "@/components/SubmissionQueue";
+import { ScheduleWarning, TimetableSuggestions } from "@/components/TimetableSuggestions";
 import { useToast } from "@/hooks/use-toast";
-
-const formSchema = z.object({
-  employeeName: z.string().min(1, "Employee name is required"),
-  employeeNumber: z.string().min(1, "Employee number is required"),
-  garage: z.string().min(1, "Garage is required"),
-  route: z.string().min(1, "Route is required"),
-  dateOfReport: z.date({
-    required_error: "Date of report is required",
-  }),
-  runningNumber: z.string().min(1, "Running number is required"),
-  dateOfIncident: z.date({
-    required_error: "Date of incident is required",
-  }),
-  dutyNumber: z.string().min(1, "Duty number is required"),
-  timeOfIncident: z.string().min(1, "Time of incident is required"),
-  tripNumber: z.string().min(1, "Trip number is required"),
-  location: z.string().min(1, "Location is required"),
-  fleetNumber: z.string().min(1, "Fleet number is required"),
-  travellingFrom: z.string().min(1, "Travelling from is required"),
-  destination: z.string().min(1, "Destination is required"),
-  subjectOfReport: z.string().min(1, "Subject of report is required"),
-  detailsOfIncident: z.string().min(10, "Details must be at least 10 characters"),
-  controllerName: z.string().min(1, "Controller's name is required"),
-  extensionNumber: z.string().min(1, "Extension number is required"),
-});
-
-type FormData = z.infer<typeof formSchema>;
-
-const garageOptions = [
-  "Fullwell",
-  "Hounslow",
-  "Hounslow Heath",
-  "Tolworth"
-];
-
-const subjectOptions = [
-  "Failing to follow instructions",
-  "Delaying service",
-  "Failing Headway",
-  "Attitude and demeanour",
-  "Driver error",
-  "Late departure"
-];
+import { useAuth } from "@/hooks/use-auth";
+import { useReportDrafts } from "@/hooks/use-report-drafts";
+import { useSubmissionQueue } from "@/hooks/use-submission-queue";
+import { useGarages } from "@/hooks/use-garages";
+import { useReportSubjects } from "@/hooks/use-report-subjects";
+import { useRoutes } from "@/hooks/use-routes";
+import { useVehicles } from "@/hooks/use-vehicles";
+import { useEmployees } from "@/hooks/use-employees";
+import { useTimetable } from "@/hooks/use-timetable";
+import { FIRST_BUS_LOGO_URL, formSchema, type FormData } from "@/lib/officials-report";
+import { renderReport, reportFormatOptions, reportFormats, type ReportFormat } from "@/lib/report-formats";
+import { submitAndSendReport, type ReportSubmissionResult } from "@/lib/reports";
+import { fileToDocumentAttachment } from "@/lib/attachments";
+import { isNetworkError } from "@/lib/submission-queue";
+import { getGarageShortcut } from "@/lib/garages";
+import { groupReportSubjects, reportSeverityLabels } from "@/lib/report-subjects";
+import { findVehicle } from "@/lib/vehicles";
+import { findEmployee, namesMatch, type Employee } from "@/lib/employees";
+import { findScheduledTrips } from "@/lib/timetable";
+import { findRoute, isRouteActive, isRouteOperatedFrom, normalizeRouteNumber, routeTermini } from "@/lib/routes";
 
 export function OfficialsReportForm() {
   const { toast } = useToast();
+  const { profile } = useAuth();
+  const { data: garages = [] } = useGarages();
+  const { data: subjects = [] } = useReportSubjects({ includeRetired: true });
+  const { data: routes = [] } = useRoutes();
+  const { data: vehicles = [] } = useVehicles();
+  const { data: employees = [] } = useEmployees();
+  const { data: timetable } = useTimetable();
+  const [downloadFormat, setDownloadFormat] = useState<ReportFormat>("txt");
   
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -75,111 +78,209 @@ export function OfficialsReportForm() {
       tripNumber: "",
       location: "",
       fleetNumber: "",
+      registration: "",
       travellingFrom: "",
       destination: "",
       subjectOfReport: "",
       detailsOfIncident: "",
       controllerName: "",
       extensionNumber: "",
+      cctvRequested: false,
+      cctvWindowStart: "",
+      cctvWindowEnd: "",
+      cctvCameras: [],
+      witnesses: [],
     },
   });
 
-  const createReportContent = (data: FormData) => {
-    return `Officials Report
-
-EMPLOYEE INFORMATION:
-• Employee Name: ${data.employeeName}
-• Employee Number: ${data.employeeNumber}
-• Garage: ${data.garage}
-• Route: ${data.route}
-
-REPORT DETAILS:
-• Date of Report: ${data.dateOfReport ? format(data.dateOfReport, "PPP") : 'N/A'}
-• Running Number: ${data.runningNumber}
-• Date of Incident: ${data.dateOfIncident ? format(data.dateOfIncident, "PPP") : 'N/A'}
-• Duty Number: ${data.dutyNumber}
-• Time of Incident: ${data.timeOfIncident}
-• Trip Number: ${data.tripNumber}
-
-LOCATION INFORMATION:
-• Location: ${data.location}
-• Fleet Number: ${data.fleetNumber}
-• Travelling From: ${data.travellingFrom}
-• Destination: ${data.destination}
-
-INCIDENT DETAILS:
-• Subject of Report: ${data.subjectOfReport}
-• Details of Incident: 
-${data.detailsOfIncident}
-
-CONTROLLER INFORMATION:
-• Controller's Name: ${data.controllerName}
-• Extension Number: ${data.extensionNumber}
-
----
-This report was generated via the Officials Report Form
-Generated on: ${new Date().toLocaleString()}`;
+  // Signed-in controllers report under their profile identity; submit_officials_report
+  // applies the same rule on the server
+  const controllerLocked = !!profile?.full_name && !!profile?.extension_number;
+
+  const applyProfile = useCallback(() => {
+    if (controllerLocked) {
+      form.setValue("controllerName", profile.full_name, { shouldValidate: form.formState.isSubmitted });
+      form.setValue("extensionNumber", profile.extension_number, { shouldValidate: form.formState.isSubmitted });
+    }
+  }, [controllerLocked, profile, form]);
+
+  useEffect(applyProfile, [applyProfile]);
+
+  const [employeeNumber, garage, routeNumber, dateOfIncident, timeOfIncident, fleetNumber, subjectOfReport] =
+    form.watch(["employeeNumber", "garage", "route", "dateOfIncident", "timeOfIncident", "fleetNumber", "subjectOfReport"]);
+  const selectedRoute = findRoute(routes, routeNumber);
+  const routeOptions = routes
+    .filter((route) => route === selectedRoute || isRouteActive(route, dateOfIncident ?? new Date()))
+    .map((route) => ({ value: route.route_number, description: routeTermini(route) || undefined }));
+
+  const selectedEmployee = findEmployee(employees, employeeNumber ?? "");
+  const garageNames = useMemo(() => new Map(garages.map((candidate) => [candidate.id, candidate.name])), [garages]);
+  const employeeGarage = useCallback(
+    (employee: Employee) => (employee.home_garage_id ? garageNames.get(employee.home_garage_id) : undefined),
+    [garageNames]
+  );
+  // The directory can run to thousands of people, so the options are not rebuilt on every keystroke
+  const employeeNumberOptions = useMemo(
+    () =>
+      employees.map((employee) => ({
+        value: employee.employee_number,
+        description: [employee.full_name, employeeGarage(employee)].filter(Boolean).join(" · "),
+        keywords: [employee.full_name],
+      })),
+    [employees, employeeGarage]
+  );
+  const employeeNameOptions = useMemo(
+    () =>
+      employees.map((employee) => ({
+        id: employee.employee_number,
+        value: employee.full_name,
+        description: [employee.employee_number, employeeGarage(employee)].filter(Boolean).join(" · "),
+        keywords: [employee.employee_number],
+      })),
+    [employees, employeeGarage]
+  );
+
+  // Choosing someone from the directory by either name or number fills in the rest
+  const applyEmployee = (option: AutocompleteOption) => {
+    const employee = findEmployee(employees, option.id ?? option.value);
+    if (!employee) return;
+    const shouldValidate = form.formState.isSubmitted;
+    form.setValue("employeeNumber", employee.employee_number, { shouldValidate });
+    form.setValue("employeeName", employee.full_name, { shouldValidate });
+    const homeGarage = employeeGarage(employee);
+    if (homeGarage) form.setValue("garage", homeGarage, { shouldValidate });
   };
 
-  const getGarageShortcut = (garage: string) => {
-    const garageMap: { [key: string]: string } = {
-      "Fullwell": "FW",
-      "Hounslow": "AV", 
-      "Hounslow Heath": "WK",
-      "Tolworth": "TV"
-    };
-    return garageMap[garage] || garage;
+  // Only checked once the route, date and time are all known
+  const scheduledTrips = useMemo(
+    () =>
+      timetable && routeNumber && dateOfIncident && timeOfIncident
+        ? findScheduledTrips(timetable, routeNumber, dateOfIncident, timeOfIncident)
+        : null,
+    [timetable, routeNumber, dateOfIncident, timeOfIncident]
+  );
+
+  const selectedVehicle = findVehicle(vehicles, fleetNumber ?? "");
+  const vehicleOptions = vehicles
+    .filter((vehicle) => vehicle.in_service || vehicle === selectedVehicle)
+    .map((vehicle) => ({
+      value: vehicle.fleet_number,
+      description: [vehicle.registration, vehicle.vehicle_type].filter(Boolean).join(" · "),
+      keywords: [vehicle.registration],
+    }));
+
+  // The registration always follows the fleet number and is never typed
+  useEffect(() => {
+    const registration = selectedVehicle?.registration ?? "";
+    if (form.getValues("registration") !== registration) form.setValue("registration", registration);
+  }, [selectedVehicle, form]);
+
+  const drafts = useReportDrafts(form);
+  const submissionQueue = useSubmissionQueue();
+  // Files are kept out of the form values, which are saved as JSON drafts
+  const [attachments, setAttachments] = useState<File[]>([]);
+
+  const startNewReport = () => {
+    drafts.startNewDraft();
+    setAttachments([]);
+    applyProfile();
   };
 
-  const onSubmit = (data: FormData) => {
-    console.log("Form submitted:", data);
-    
-    // Create report content and file
-    const reportContent = createReportContent(data);
-    const currentDate = format(new Date(), "yyyyMMdd");
-    const garageShortcut = getGarageShortcut(data.garage || '');
-    const employeeNumber = data.employeeNumber || 'NoEmpNum';
-    const filename = `${currentDate}-${garageShortcut}-Officials Report-${employeeNumber}.txt`;
-    
-    // Create blob and file for attachment
-    const blob = new Blob([reportContent], { type: 'text/plain' });
-    const file = new File([blob], filename, { type: 'text/plain' });
-    
-    // Create temporary URL for the file
-    const fileUrl = URL.createObjectURL(file);
-    
-    // Send email with attachment
-    const mailtoUrl = `mailto:FWOCC-HubLeaders@firstbuslondon.co.uk?subject=${encodeURIComponent("Officials Report")}&body=${encodeURIComponent("")}&attachment=${encodeURIComponent(fileUrl)}`;
-    window.location.href = mailtoUrl;
+  const onSubmit = async (data: FormData) => {
+    // Kept if the report is queued, so a submission that did reach the server is not stored twice
+    const clientId = crypto.randomUUID();
+
+    // Without a connection the report waits in the offline queue
+    if (!navigator.onLine) {
+      await queueReport(data, clientId);
+      return;
+    }
+
+    // Store the report first so it exists even if the email is never sent
+    let result: ReportSubmissionResult;
+    try {
+      result = await submitAndSendReport(data, clientId, attachments);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await queueReport(data, clientId);
+        return;
+      }
+      console.error("Failed to store report:", error);
+      toast({
+        variant: "destructive",
+        title: "Report Not Saved",
+        description: "The report could not be stored. Please try again.",
+      });
+      return;
+    }
+
+    // The report is stored, so the draft is no longer needed
+    drafts.discardCurrentDraft();
+    startNewReport();
+
+    if (result.attachmentError && result.emailError) {
+      toast({
+        variant: "destructive",
+        title: "Report Saved, Attachments Not Uploaded, Email Not Sent",
+        description: `Report ${result.reference} was saved but its attachments could not be uploaded (${result.attachmentError}) and it could not be emailed (${result.emailError}). Add the attachments again from the report page.`,
+      });
+      return;
+    }
+
+    if (result.attachmentError) {
+      toast({
+        variant: "destructive",
+        title: "Report Saved, Attachments Not Uploaded",
+        description: `Report ${result.reference} was saved but its attachments could not be uploaded: ${result.attachmentError}. Add them again from the report page.`,
+      });
+      return;
+    }
+
+    if (result.emailError) {
+      toast({
+        variant: "destructive",
+        title: "Report Saved, Email Not Sent",
+        description: `Report ${result.reference} was saved but could not be emailed: ${result.emailError}`,
+      });
+      return;
+    }
 
     toast({
       title: "Report Sent",
-      description: "Your email client has been opened with the report attached.",
+      description: `Report ${result.reference} has been saved and emailed to the hub leaders.`,
     });
   };
 
-  const downloadReport = () => {
-    const formData = form.getValues();
-    const reportContent = createReportContent(formData);
-    
-    // Create filename with format: Date-Garage-Officials Report-EmployeeNumber
-    const currentDate = format(new Date(), "yyyyMMdd"); // YYYYMMDD format
-    const garageShortcut = getGarageShortcut(formData.garage || '');
-    const employeeNumber = formData.employeeNumber || 'NoEmpNum';
-    const filename = `${currentDate}-${garageShortcut}-Officials Report-${employeeNumber}.txt`;
-    
-    // Create a blob with the report content
-    const blob = new Blob([reportContent], { type: 'text/plain' });
-    const url = window.URL.createObjectURL(blob);
-    
-    // Create a temporary link element and trigger download
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
+  const queueReport = async (data: FormData, clientId: string) => {
+    await submissionQueue.enqueue(data, clientId, attachments);
+    drafts.discardCurrentDraft();
+    startNewReport();
+
+    toast({
+      title: "Report Queued",
+      description: "You are offline. The report will be sent automatically when the connection returns.",
+    });
+  };
+
+  const downloadReport = async () => {
+    const renderer = reportFormats[downloadFormat];
+    try {
+      const data = form.getValues();
+      const { blob, filename } = await renderReport(downloadFormat, {
+        data,
+        garageCode: getGarageShortcut(data.garage, garages),
+        attachments: attachments.map(fileToDocumentAttachment),
+      });
+      downloadFile(blob, filename);
+    } catch (error) {
+      console.error("Failed to create report:", error);
+      toast({
+        variant: "destructive",
+        title: "Report Not Created",
+        description: `The ${renderer.label} report could not be generated. Please try again.`,
+      });
+      return;
+    }
 
     toast({
       title: "Report Downloaded",
@@ -190,11 +291,13 @@ Generated on: ${new Date().toLocaleString()}`;
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto py-8 px-4 max-w-4xl">
+        <AppNav />
+
         {/* Header with Logo */}
         <div className="text-center mb-8">
           <div className="flex items-center justify-center mb-4">
             <img 
-              src="/lovable-uploads/4bb6ce72-fbf6-4c79-84b1-875b11f9f3f5.png" 
+              src={FIRST_BUS_LOGO_URL} 
               alt="First Bus Logo" 
               className="h-16 w-auto"
             />
@@ -203,6 +306,10 @@ Generated on: ${new Date().toLocaleString()}`;
           <div className="w-24 h-1 bg-primary mx-auto rounded-full"></div>
         </div>
 
+        <SubmissionQueue queue={submissionQueue} />
+        <DraftsMenu drafts={drafts} onNewReport={startNewReport} />
+        <ResumeDraftDialog drafts={drafts} />
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
             
@@ -220,8 +327,24 @@ Generated on: ${new Date().toLocaleString()}`;
                       <FormItem>
                         <FormLabel className="text-foreground font-medium">Employee Name *</FormLabel>
                         <FormControl>
-                          <Input {...field} className="bg-input border-border" />
+                          <Autocomplete
+                            ref={field.ref}
+                            value={field.value}
+                            onChange={field.onChange}
+                            onBlur={field.onBlur}
+                            onSelectOption={applyEmployee}
+                            options={employeeNameOptions}
+                            placeholder="Select employee"
+                            searchPlaceholder="Search name or number..."
+                            emptyText="No employees found."
+                            allowCustom
+                          />
                         </FormControl>
+                        {selectedEmployee && field.value && !namesMatch(field.value, selectedEmployee.full_name) && (
+                          <FieldWarning>
+                            Employee {selectedEmployee.employee_number} is {selectedEmployee.full_name} in the directory.
+                          </FieldWarning>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -234,8 +357,23 @@ Generated on: ${new Date().toLocaleString()}`;
                       <FormItem>
                         <FormLabel className="text-foreground font-medium">Employee Number *</FormLabel>
                         <FormControl>
-                          <Input {...field} className="bg-input border-border" />
+                          <Autocomplete
+                            ref={field.ref}
+                            value={field.value}
+                            onChange={field.onChange}
+                            onBlur={field.onBlur}
+                            onSelectOption={applyEmployee}
+                            options={employeeNumberOptions}
+                            placeholder="Select employee number"
+                            searchPlaceholder="Search number or name..."
+                            emptyText="No employees found."
+                            allowCustom
+                          />
                         </FormControl>
+                        {field.value && employees.length > 0 && !selectedEmployee && (
+                          <FieldWarning>Employee number {field.value} is not in the employee directory.</FieldWarning>
+                        )}
+                        <EmployeeHistorySummary employeeNumber={field.value} subject={subjectOfReport} />
                         <FormMessage />
                       </FormItem>
                     )}
@@ -247,16 +385,16 @@ Generated on: ${new Date().toLocaleString()}`;
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel className="text-foreground font-medium">Garage *</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger className="bg-input border-border">
                               <SelectValue placeholder="Select garage" />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent className="bg-popover border-border">
-                            {garageOptions.map((garage) => (
-                              <SelectItem key={garage} value={garage} className="hover:bg-accent">
-                                {garage}
+                            {garages.map((garage) => (
+                              <SelectItem key={garage.id} value={garage.name} className="hover:bg-accent">
+                                {garage.name}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -273,8 +411,30 @@ Generated on: ${new Date().toLocaleString()}`;
                       <FormItem>
                         <FormLabel className="text-foreground font-medium">Route *</FormLabel>
                         <FormControl>
-                          <Input {...field} className="bg-input border-border" />
+                          <Autocomplete
+                            ref={field.ref}
+                            value={field.value}
+                            onChange={field.onChange}
+                            onBlur={field.onBlur}
+                            options={routeOptions}
+                            placeholder="Select route"
+                            searchPlaceholder="Search routes..."
+                            emptyText="No routes found."
+                            allowCustom
+                            normalize={normalizeRouteNumber}
+                          />
                         </FormControl>
+                        {field.value && routes.length > 0 && !selectedRoute && (
+                          <FieldWarning>Route {field.value} is not in the route list.</FieldWarning>
+                        )}
+                        {selectedRoute && garage && !isRouteOperatedFrom(selectedRoute, garage, garages) && (
+                          <FieldWarning>Route {selectedRoute.route_number} is not operated from {garage}.</FieldWarning>
+                        )}
+                        {selectedRoute && dateOfIncident && !isRouteActive(selectedRoute, dateOfIncident) && (
+                          <FieldWarning>
+                            Route {selectedRoute.route_number} was not running on {format(dateOfIncident, "PPP")}.
+                          </FieldWarning>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -346,6 +506,7 @@ Generated on: ${new Date().toLocaleString()}`;
                         <FormControl>
                           <Input {...field} className="bg-input border-border" />
                         </FormControl>
+                        <ScheduleWarning trips={scheduledTrips} field="runningNumber" value={field.value} />
                         <FormMessage />
                       </FormItem>
                     )}
@@ -407,6 +568,7 @@ Generated on: ${new Date().toLocaleString()}`;
                         <FormControl>
                           <Input {...field} className="bg-input border-border" />
                         </FormControl>
+                        <ScheduleWarning trips={scheduledTrips} field="dutyNumber" value={field.value} />
                         <FormMessage />
                       </FormItem>
                     )}
@@ -442,11 +604,13 @@ Generated on: ${new Date().toLocaleString()}`;
                         <FormControl>
                           <Input {...field} className="bg-input border-border" />
                         </FormControl>
+                        <ScheduleWarning trips={scheduledTrips} field="tripNumber" value={field.value} />
                         <FormMessage />
                       </FormItem>
                     )}
                   />
                 </div>
+                <TimetableSuggestions form={form} trips={scheduledTrips} />
               </CardContent>
             </Card>
 
@@ -463,9 +627,7 @@ Generated on: ${new Date().toLocaleString()}`;
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel className="text-foreground font-medium">Location *</FormLabel>
-                        <FormControl>
-                          <Input {...field} className="bg-input border-border" />
-                        </FormControl>
+                        <LocationPicker form={form} field={field} />
                         <FormMessage />
                       </FormItem>
                     )}
@@ -478,8 +640,23 @@ Generated on: ${new Date().toLocaleString()}`;
                       <FormItem>
                         <FormLabel className="text-foreground font-medium">Fleet Number *</FormLabel>
                         <FormControl>
-                          <Input {...field} className="bg-input border-border" />
+                          <Autocomplete
+                            ref={field.ref}
+                            value={field.value}
+                            onChange={field.onChange}
+                            onBlur={field.onBlur}
+                            options={vehicleOptions}
+                            placeholder="Select fleet number"
+                            searchPlaceholder="Search fleet number or registration..."
+                            emptyText="No vehicles found."
+                            allowCustom
+                            normalize={(value) => value.trim().toUpperCase()}
+                          />
                         </FormControl>
+                        {selectedVehicle && <FormDescription>Registration {selectedVehicle.registration}</FormDescription>}
+                        {field.value && vehicles.length > 0 && !selectedVehicle && (
+                          <FieldWarning>Fleet number {field.value} is not in the fleet register.</FieldWarning>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -516,6 +693,16 @@ Generated on: ${new Date().toLocaleString()}`;
               </CardContent>
             </Card>
 
+            {/* CCTV Section */}
+            <Card className="bg-form-background border-border/50 shadow-lg">
+              <CardHeader className="bg-form-section">
+                <CardTitle className="text-xl font-semibold text-foreground">CCTV</CardTitle>
+              </CardHeader>
+              <CardContent className="p-6">
+                <CctvRequestSection form={form} />
+              </CardContent>
+            </Card>
+
             {/* Incident Details Section */}
             <Card className="bg-form-background border-border/50 shadow-lg">
               <CardHeader className="bg-form-section">
@@ -526,26 +713,42 @@ Generated on: ${new Date().toLocaleString()}`;
                   <FormField
                     control={form.control}
                     name="subjectOfReport"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-foreground font-medium">Subject of Report *</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                          <FormControl>
-                            <SelectTrigger className="bg-input border-border">
-                              <SelectValue placeholder="Select subject of report" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent className="bg-popover border-border">
-                            {subjectOptions.map((subject) => (
-                              <SelectItem key={subject} value={subject} className="hover:bg-accent">
-                                {subject}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
+                    render={({ field }) => {
+                      const selected = subjects.find((subject) => subject.name === field.value);
+                      // A resumed draft may reference a subject retired since, so keep it selectable
+                      const offered = subjects.filter((subject) => !subject.retired_at || subject === selected);
+                      return (
+                        <FormItem>
+                          <FormLabel className="text-foreground font-medium">Subject of Report *</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger className="bg-input border-border">
+                                <SelectValue placeholder="Select subject of report" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent className="bg-popover border-border">
+                              {groupReportSubjects(offered).map((group) => (
+                                <SelectGroup key={group.category}>
+                                  <SelectLabel>{group.label}</SelectLabel>
+                                  {group.subjects.map((subject) => (
+                                    <SelectItem key={subject.id} value={subject.name} className="hover:bg-accent">
+                                      {subject.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectGroup>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {selected && (
+                            <FormDescription>
+                              {reportSeverityLabels[selected.default_severity]} severity
+                              {selected.requires_manager_signoff && " · Needs garage manager sign-off"}
+                            </FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
                   />
 
                   <FormField
@@ -570,6 +773,30 @@ Generated on: ${new Date().toLocaleString()}`;
               </CardContent>
             </Card>
 
+            {/* Witnesses Section */}
+            <Card className="bg-form-background border-border/50 shadow-lg">
+              <CardHeader className="bg-form-section">
+                <CardTitle className="text-xl font-semibold text-foreground">Witnesses</CardTitle>
+              </CardHeader>
+              <CardContent className="p-6">
+                <WitnessFields form={form} />
+              </CardContent>
+            </Card>
+
+            {/* Attachments Section */}
+            <Card className="bg-form-background border-border/50 shadow-lg">
+              <CardHeader className="bg-form-section">
+                <CardTitle className="text-xl font-semibold text-foreground">Attachments</CardTitle>
+              </CardHeader>
+              <CardContent className="p-6">
+                <AttachmentPicker
+                  files={attachments}
+                  onChange={setAttachments}
+                  disabled={form.formState.isSubmitting}
+                />
+              </CardContent>
+            </Card>
+
             {/* Controller Information Section */}
             <Card className="bg-form-background border-border/50 shadow-lg">
               <CardHeader className="bg-form-section">
@@ -584,8 +811,13 @@ Generated on: ${new Date().toLocaleString()}`;
                       <FormItem>
                         <FormLabel className="text-foreground font-medium">Controller's Name *</FormLabel>
                         <FormControl>
-                          <Input {...field} className="bg-input border-border" />
+                          <Input
+                            {...field}
+                            readOnly={controllerLocked}
+                            className={cn("bg-input border-border", controllerLocked && "bg-muted text-muted-foreground")}
+                          />
                         </FormControl>
+                        {controllerLocked && <FormDescription>From your profile</FormDescription>}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -598,8 +830,13 @@ Generated on: ${new Date().toLocaleString()}`;
                       <FormItem>
                         <FormLabel className="text-foreground font-medium">Extension Number *</FormLabel>
                         <FormControl>
-                          <Input {...field} className="bg-input border-border" />
+                          <Input
+                            {...field}
+                            readOnly={controllerLocked}
+                            className={cn("bg-input border-border", controllerLocked && "bg-muted text-muted-foreground")}
+                          />
                         </FormControl>
+                        {controllerLocked && <FormDescription>From your profile</FormDescription>}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -613,20 +850,35 @@ Generated on: ${new Date().toLocaleString()}`;
               <Button 
                 type="submit" 
                 size="lg"
+                disabled={form.formState.isSubmitting}
                 className="px-12 py-3 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold text-lg shadow-lg transition-all duration-200 hover:shadow-xl transform hover:scale-105"
               >
-                Send Report
-              </Button>
-              <Button 
-                type="button"
-                onClick={downloadReport}
-                variant="outline"
-                size="lg"
-                className="px-12 py-3 border-primary text-primary hover:bg-primary hover:text-primary-foreground font-semibold text-lg shadow-lg transition-all duration-200 hover:shadow-xl transform hover:scale-105"
-              >
-                <Download className="mr-2 h-5 w-5" />
-                Download Report
+                {form.formState.isSubmitting ? "Sending..." : "Send Report"}
               </Button>
+              <div className="flex gap-2">
+                <Select value={downloadFormat} onValueChange={(value) => setDownloadFormat(value as ReportFormat)}>
+                  <SelectTrigger className="w-44 h-auto bg-input border-border" aria-label="Report format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border-border">
+                    {reportFormatOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value} className="hover:bg-accent">
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button 
+                  type="button"
+                  onClick={downloadReport}
+                  variant="outline"
+                  size="lg"
+                  className="px-12 py-3 border-primary text-primary hover:bg-primary hover:text-primary-foreground font-semibold text-lg shadow-lg transition-all duration-200 hover:shadow-xl transform hover:scale-105"
+                >
+                  <Download className="mr-2 h-5 w-5" />
+                  Download Report
+                </Button>
+              </div>
             </div>
 
             {/* Limited Sharing Notice */}
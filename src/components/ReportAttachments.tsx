@@ -0,0 +1,233 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent, type DragEvent } from "react";
+import { Camera, FileText, Paperclip, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useUploadReportAttachments } from "@/hooks/use-reports";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  attachmentTypes,
+  formatFileSize,
+  isImageAttachment,
+  validateAttachment,
+  type StoredAttachment,
+} from "@/lib/attachments";
+import { cn } from "@/lib/utils";
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+  // How many files may be chosen; fewer when the report already has some
+  limit?: number;
+}
+
+// Object URLs for image previews, released when the files change or the picker unmounts
+function usePreviewUrls(files: File[]) {
+  const urls = useMemo(
+    () => files.map((file) => (isImageAttachment(file.type) ? URL.createObjectURL(file) : null)),
+    [files]
+  );
+  useEffect(() => () => urls.forEach((url) => url && URL.revokeObjectURL(url)), [urls]);
+  return urls;
+}
+
+// Files chosen, dropped or photographed on the form; they are uploaded when the report is sent
+export function AttachmentPicker({ files, onChange, disabled, limit = MAX_ATTACHMENTS }: AttachmentPickerProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const previews = usePreviewUrls(files);
+
+  const addFiles = (added: File[]) => {
+    const problems = added.map(validateAttachment).filter((problem): problem is string => !!problem);
+    const accepted = added.filter((file) => !validateAttachment(file));
+    const room = limit - files.length;
+    if (accepted.length > room) problems.push(`Only ${MAX_ATTACHMENTS} files can be attached to a report`);
+
+    if (problems.length) {
+      toast({ variant: "destructive", title: "Some Files Not Attached", description: problems.join(". ") });
+    }
+    if (accepted.length && room > 0) onChange([...files, ...accepted.slice(0, room)]);
+  };
+
+  const handleInput = (event: ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []));
+    // Allows the same file to be chosen again after removing it
+    event.target.value = "";
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    if (!disabled) addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const remove = (index: number) => onChange(files.filter((_, position) => position !== index));
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(event) => {
+          event.preventDefault();
+          if (!disabled) setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "flex flex-col items-center gap-3 rounded-lg border-2 border-dashed border-border p-6 text-center transition-colors",
+          dragging && "border-primary bg-accent"
+        )}
+      >
+        <p className="text-sm text-muted-foreground">
+          Drop photos, screenshots or PDFs here. Up to {limit} files of {formatFileSize(MAX_ATTACHMENT_BYTES)} each.
+        </p>
+        <div className="flex flex-wrap justify-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="bg-input border-border hover:bg-accent"
+          >
+            <Paperclip className="mr-2 h-4 w-4" />
+            Choose Files
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => cameraInputRef.current?.click()}
+            disabled={disabled}
+            className="bg-input border-border hover:bg-accent"
+          >
+            <Camera className="mr-2 h-4 w-4" />
+            Take Photo
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={attachmentTypes.join(",")}
+          onChange={handleInput}
+          className="hidden"
+        />
+        {/* Opens the rear camera on phones; desktops fall back to a file chooser */}
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/jpeg,image/png"
+          capture="environment"
+          onChange={handleInput}
+          className="hidden"
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${file.lastModified}-${index}`} className="relative rounded-md border border-border p-2">
+              <AttachmentThumbnail url={previews[index]} filename={file.name} />
+              <p className="mt-1 truncate text-xs font-medium" title={file.name}>{file.name}</p>
+              <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+              <Button
+                type="button"
+                variant="secondary"
+                size="icon"
+                onClick={() => remove(index)}
+                disabled={disabled}
+                className="absolute right-1 top-1 h-6 w-6"
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function AttachmentThumbnail({ url, filename }: { url: string | null; filename: string }) {
+  return url ? (
+    <img src={url} alt={filename} className="h-24 w-full rounded object-cover" />
+  ) : (
+    <div className="flex h-24 w-full items-center justify-center rounded bg-muted">
+      <FileText className="h-8 w-8 text-muted-foreground" />
+    </div>
+  );
+}
+
+// Stored attachments on the report page; each opens full size in a new tab
+export function AttachmentGallery({ attachments }: { attachments: StoredAttachment[] }) {
+  return (
+    <ul className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      {attachments.map((attachment) => (
+        <li key={attachment.id}>
+          <a
+            href={attachment.url ?? undefined}
+            target="_blank"
+            rel="noreferrer"
+            className="block rounded-md border border-border p-2 hover:bg-accent"
+          >
+            <AttachmentThumbnail
+              url={isImageAttachment(attachment.content_type) ? attachment.url : null}
+              filename={attachment.filename}
+            />
+            <p className="mt-1 truncate text-xs font-medium" title={attachment.filename}>{attachment.filename}</p>
+            <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size_bytes)}</p>
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface AddAttachmentsProps {
+  reportId: string;
+  // Files already stored on the report, which count towards the limit
+  stored: number;
+}
+
+// Adds files to a stored report, e.g. when they could not be uploaded with it
+export function AddAttachments({ reportId, stored }: AddAttachmentsProps) {
+  const { toast } = useToast();
+  const { mutateAsync, isPending } = useUploadReportAttachments();
+  const [files, setFiles] = useState<File[]>([]);
+  const limit = MAX_ATTACHMENTS - stored;
+
+  const upload = async () => {
+    try {
+      await mutateAsync({ reportId, files });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Attachments Not Uploaded",
+        description: error instanceof Error ? error.message : "The files could not be uploaded. Please try again.",
+      });
+      return;
+    }
+
+    toast({
+      title: "Attachments Uploaded",
+      description: `${files.length} ${files.length === 1 ? "file has" : "files have"} been added to the report.`,
+    });
+    setFiles([]);
+  };
+
+  if (limit <= 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <AttachmentPicker files={files} onChange={setFiles} disabled={isPending} limit={limit} />
+      {files.length > 0 && (
+        <Button type="button" onClick={upload} disabled={isPending}>
+          <Upload className="mr-2 h-4 w-4" />
+          {isPending ? "Uploading..." : "Upload Attachments"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import type { ReactNode } from "react";
+import { format, parseISO } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { CountRow, TimelineRow } from "@/lib/report-analytics";
+import { reportSubjectCategories, reportSubjectCategoryLabels } from "@/lib/report-subjects";
+import { cn } from "@/lib/utils";
+
+const countConfig = {
+  count: { label: "Reports", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const timelineConfig = {
+  ...Object.fromEntries(
+    reportSubjectCategories.map((category, index) => [
+      category,
+      { label: reportSubjectCategoryLabels[category], color: `hsl(var(--chart-${index + 1}))` },
+    ]),
+  ),
+  uncategorised: { label: "Other", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+interface ChartCardProps {
+  title: string;
+  description?: string;
+  className?: string;
+  children: ReactNode;
+}
+
+export function ChartCard({ title, description, className, children }: ChartCardProps) {
+  return (
+    <Card className={cn("bg-form-background border-border/50 shadow-lg", className)}>
+      <CardHeader className="bg-form-section">
+        <CardTitle className="text-xl font-semibold text-foreground">{title}</CardTitle>
+        {description && <p className="text-sm text-muted-foreground">{description}</p>}
+      </CardHeader>
+      <CardContent className="p-6">{children}</CardContent>
+    </Card>
+  );
+}
+
+const NoReports = () => <p className="py-12 text-center text-muted-foreground">No reports in this range.</p>;
+
+interface CountChartProps {
+  data: CountRow[];
+  // Long labels such as subjects and names read better as horizontal bars
+  horizontal?: boolean;
+}
+
+export function CountChart({ data, horizontal = false }: CountChartProps) {
+  if (data.every((row) => row.count === 0)) return <NoReports />;
+
+  if (horizontal) {
+    return (
+      <ChartContainer config={countConfig} className="w-full" style={{ height: Math.max(160, data.length * 32 + 40) }}>
+        <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="name" width={160} tickLine={false} axisLine={false} interval={0} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+    );
+  }
+
+  return (
+    <ChartContainer config={countConfig} className="h-[280px] w-full">
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="name" tickLine={false} axisLine={false} tickMargin={8} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+interface TimelineChartProps {
+  data: TimelineRow[];
+  weekly: boolean;
+}
+
+// Reports per day or week, stacked by subject category
+export function TimelineChart({ data, weekly }: TimelineChartProps) {
+  const series = Object.keys(timelineConfig).filter((key) =>
+    data.some((row) => row[key as keyof TimelineRow]),
+  );
+  if (series.length === 0) return <NoReports />;
+
+  const periodLabel = (period: string) =>
+    weekly ? `Week of ${format(parseISO(period), "dd MMM")}` : format(parseISO(period), "EEE dd MMM");
+
+  return (
+    <ChartContainer config={timelineConfig} className="h-[320px] w-full">
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="period"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={16}
+          tickFormatter={(period: string) => format(parseISO(period), "dd MMM")}
+        />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={periodLabel} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {series.map((key, index) => (
+          <Bar
+            key={key}
+            dataKey={key}
+            stackId="reports"
+            fill={`var(--color-${key})`}
+            radius={index === series.length - 1 ? [4, 4, 0, 0] : 0}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState, type FormEvent } from "react";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { Check, FilePlus, FileText, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { useReportDrafts } from "@/hooks/use-report-drafts";
+
+type ReportDrafts = ReturnType<typeof useReportDrafts>;
+
+interface ResumeDraftDialogProps {
+  drafts: ReportDrafts;
+}
+
+// Offered once when the form opens with unfinished drafts saved
+export function ResumeDraftDialog({ drafts }: ResumeDraftDialogProps) {
+  const [open, setOpen] = useState(() => drafts.drafts.length > 0);
+  const [latest] = drafts.drafts;
+
+  if (!latest) return null;
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Resume draft?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You have an unfinished report "{latest.name}", last saved {formatDistanceToNow(parseISO(latest.updatedAt))} ago.
+            {drafts.drafts.length > 1 && ` Other drafts (${drafts.drafts.length - 1}) are available from the Drafts menu.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Start New Report</AlertDialogCancel>
+          <AlertDialogAction onClick={() => drafts.resumeDraft(latest.id)}>Resume Draft</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+interface DraftsMenuProps {
+  drafts: ReportDrafts;
+  onNewReport: () => void;
+}
+
+export function DraftsMenu({ drafts, onNewReport }: DraftsMenuProps) {
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState("");
+  const current = drafts.drafts.find((draft) => draft.id === drafts.currentDraftId);
+
+  const openRename = () => {
+    setName(current?.name ?? "");
+    setRenaming(true);
+  };
+
+  const submitRename = (event: FormEvent) => {
+    event.preventDefault();
+    if (current && name.trim()) drafts.renameDraft(current.id, name.trim());
+    setRenaming(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-3 mb-4">
+      {drafts.lastSavedAt && (
+        <span className="text-sm text-muted-foreground">
+          Draft saved at {format(drafts.lastSavedAt, "HH:mm")}
+        </span>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" variant="outline" size="sm">
+            <FileText className="mr-2 h-4 w-4" />
+            Drafts ({drafts.drafts.length})
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuItem onSelect={onNewReport}>
+            <FilePlus className="mr-2 h-4 w-4" />
+            New Report
+          </DropdownMenuItem>
+          {current && (
+            <>
+              <DropdownMenuItem onSelect={openRename}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename Current Draft
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => drafts.deleteDraft(current.id)} className="text-destructive">
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete Current Draft
+              </DropdownMenuItem>
+            </>
+          )}
+          {drafts.drafts.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Saved Drafts</DropdownMenuLabel>
+              {drafts.drafts.map((draft) => (
+                <DropdownMenuItem key={draft.id} onSelect={() => drafts.resumeDraft(draft.id)}>
+                  <Check className={draft.id === drafts.currentDraftId ? "mr-2 h-4 w-4" : "mr-2 h-4 w-4 invisible"} />
+                  <span className="flex-1 truncate">{draft.name}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {format(parseISO(draft.updatedAt), "dd MMM HH:mm")}
+                  </span>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={renaming} onOpenChange={setRenaming}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Draft</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={submitRename} className="space-y-4">
+            <Input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              aria-label="Draft name"
+              className="bg-input border-border"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useHeatmapReports } from "@/hooks/use-reports";
+import { hourLabel } from "@/lib/report-analytics";
+import {
+  describeHeatmapCell,
+  hours,
+  type HeatmapCell,
+  type HeatmapFilters,
+  type HeatmapGrid,
+  type HeatmapRow,
+} from "@/lib/report-heatmap";
+import { cn } from "@/lib/utils";
+
+interface ReportHeatmapProps {
+  grid: HeatmapGrid;
+  rowHeading: string;
+  onSelect: (row: HeatmapRow, hour: number) => void;
+}
+
+// Rows by hour of day, each cell shaded by its share of the busiest cell
+export function ReportHeatmap({ grid, rowHeading, onSelect }: ReportHeatmapProps) {
+  if (grid.max === 0) return <p className="py-12 text-center text-muted-foreground">No reports in this range.</p>;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-separate border-spacing-0.5 text-xs">
+        <thead>
+          <tr>
+            <th className="px-2 py-1 text-left font-medium text-muted-foreground">{rowHeading}</th>
+            {hours.map((hour) => (
+              <th key={hour} className="min-w-7 py-1 font-medium text-muted-foreground" title={hourLabel(hour)}>
+                {String(hour).padStart(2, "0")}
+              </th>
+            ))}
+            <th className="px-2 py-1 text-right font-medium text-muted-foreground">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {grid.rows.map((row) => (
+            <tr key={row.key}>
+              <th scope="row" className="whitespace-nowrap px-2 py-1 text-left font-medium text-foreground">
+                {row.label}
+              </th>
+              {row.hours.map((count, hour) => {
+                const share = count / grid.max;
+                return (
+                  <td key={hour} className="p-0">
+                    <button
+                      type="button"
+                      disabled={count === 0}
+                      onClick={() => onSelect(row, hour)}
+                      title={`${row.label}, ${hourLabel(hour)}: ${count} ${count === 1 ? "report" : "reports"}`}
+                      className={cn(
+                        "h-7 w-full rounded-sm tabular-nums transition-shadow",
+                        count === 0 ? "bg-muted/40" : "hover:ring-2 hover:ring-ring",
+                        share > 0.5 ? "text-primary-foreground" : "text-foreground",
+                      )}
+                      // At least a faint tint so single reports are visible next to busy cells
+                      style={count > 0 ? { backgroundColor: `hsl(var(--chart-1) / ${Math.max(0.12, share)})` } : undefined}
+                    >
+                      {count || ""}
+                    </button>
+                  </td>
+                );
+              })}
+              <td className="px-2 py-1 text-right font-medium tabular-nums">{row.total}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface HeatmapReportsDialogProps {
+  filters: HeatmapFilters;
+  cell: HeatmapCell;
+  // The cell's count across all reports, which may include reports the user cannot open
+  count: number;
+  onClose: () => void;
+}
+
+export function HeatmapReportsDialog({ filters, cell, count, onClose }: HeatmapReportsDialogProps) {
+  const { data: reports = [], isLoading, isError } = useHeatmapReports(filters, cell);
+  const hidden = count - reports.length;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{describeHeatmapCell(cell)}</DialogTitle>
+          <DialogDescription>
+            {count} {count === 1 ? "report" : "reports"} from {format(parseISO(filters.from), "dd MMM yyyy")} to{" "}
+            {format(parseISO(filters.to), "dd MMM yyyy")}
+            {filters.subject && ` about ${filters.subject}`}
+            {filters.garage && ` at ${filters.garage}`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Date of Incident</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>Route</TableHead>
+                <TableHead>Garage</TableHead>
+                <TableHead>Subject</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Loading reports...</TableCell>
+                </TableRow>
+              )}
+              {isError && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-destructive">The reports could not be loaded.</TableCell>
+                </TableRow>
+              )}
+              {reports.map((report) => (
+                <TableRow key={report.id}>
+                  <TableCell>
+                    <Link to={`/reports/${report.id}`} className="font-medium text-primary hover:underline">
+                      {report.reference}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{format(parseISO(report.date_of_incident), "EEE dd MMM yyyy")}</TableCell>
+                  <TableCell>{report.time_of_incident.slice(0, 5)}</TableCell>
+                  <TableCell>{report.route}</TableCell>
+                  <TableCell>{report.garage}</TableCell>
+                  <TableCell>{report.subject_of_report}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!isLoading && !isError && hidden > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {hidden} more {hidden === 1 ? "report is" : "reports are"} counted here but not shared with you.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,34 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { reportDocumentSections, type FormData } from "@/lib/officials-report";
+
+interface ReportSectionsProps {
+  data: FormData;
+}
+
+// Read-only rendering of a report, grouped into the same cards as the form.
+export function ReportSections({ data }: ReportSectionsProps) {
+  return (
+    <div className="space-y-8 print:space-y-4">
+      {reportDocumentSections(data).map((section) => (
+        <Card key={section.title} className="bg-form-background border-border/50 shadow-lg print:shadow-none print:break-inside-avoid">
+          <CardHeader className="bg-form-section print:py-3">
+            <CardTitle className="text-xl font-semibold text-foreground">{section.title}</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6 print:p-4">
+            <dl className="grid grid-cols-1 md:grid-cols-2 print:grid-cols-2 gap-6 print:gap-3">
+              {section.entries.map((entry) => (
+                <div key={entry.label} className={cn(entry.multiline && "md:col-span-2 print:col-span-2")}>
+                  <dt className="text-sm font-medium text-muted-foreground">{entry.label}</dt>
+                  <dd className={cn("mt-1 text-foreground", entry.multiline && "whitespace-pre-wrap")}>
+                    {entry.value}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { reportSeverityLabels, reportSeverityStyles, type ReportSeverity } from "@/lib/report-subjects";
+
+interface ReportSeverityBadgeProps {
+  severity: ReportSeverity;
+  className?: string;
+}
+
+export function ReportSeverityBadge({ severity, className }: ReportSeverityBadgeProps) {
+  return (
+    <Badge className={cn("whitespace-nowrap", reportSeverityStyles[severity], className)}>
+      {reportSeverityLabels[severity]}
+    </Badge>
+  );
+}
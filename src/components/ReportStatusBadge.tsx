@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { reportStatusLabels, reportStatusStyles, type ReportStatus } from "@/lib/report-status";
+
+interface ReportStatusBadgeProps {
+  status: ReportStatus;
+  className?: string;
+}
+
+export function ReportStatusBadge({ status, className }: ReportStatusBadgeProps) {
+  return (
+    <Badge className={cn("whitespace-nowrap", reportStatusStyles[status], className)}>
+      {reportStatusLabels[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format, parseISO } from "date-fns";
+import { ReportSeverityBadge } from "@/components/ReportSeverityBadge";
+import { ReportStatusBadge } from "@/components/ReportStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useReportHistory, useSignOffReport, useTransitionReportStatus } from "@/hooks/use-reports";
+import type { ReportRecord } from "@/lib/reports";
+import {
+  availableTransitions,
+  awaitingSignOff,
+  canSignOff,
+  reportStatusLabels,
+  type ReportTransition,
+} from "@/lib/report-status";
+
+const transitionSchema = z.object({
+  note: z.string().optional(),
+  outcome: z.string().optional(),
+  actionTaken: z.string().optional(),
+});
+
+type TransitionFormData = z.infer<typeof transitionSchema>;
+
+// Outcome and action taken become mandatory for transitions that require them
+const schemaFor = (transition: ReportTransition) =>
+  transition.requiresOutcome
+    ? transitionSchema.extend({
+        outcome: z.string().trim().min(1, "Outcome is required"),
+        actionTaken: z.string().trim().min(1, "Action taken is required"),
+      })
+    : transitionSchema;
+
+interface TransitionDialogProps {
+  report: ReportRecord;
+  transition: ReportTransition;
+  onClose: () => void;
+}
+
+function TransitionDialog({ report, transition, onClose }: TransitionDialogProps) {
+  const { toast } = useToast();
+  const { mutateAsync } = useTransitionReportStatus();
+
+  const form = useForm<TransitionFormData>({
+    resolver: zodResolver(schemaFor(transition)),
+    defaultValues: {
+      note: "",
+      outcome: report.outcome ?? "",
+      actionTaken: report.action_taken ?? "",
+    },
+  });
+
+  const onSubmit = async (values: TransitionFormData) => {
+    try {
+      await mutateAsync({
+        reportId: report.id,
+        to: transition.to,
+        note: values.note,
+        outcome: transition.requiresOutcome ? values.outcome : undefined,
+        actionTaken: transition.requiresOutcome ? values.actionTaken : undefined,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Status Not Changed",
+        description: error instanceof Error ? error.message : "The report status could not be changed.",
+      });
+      return;
+    }
+
+    toast({
+      title: "Status Changed",
+      description: `Report ${report.reference} is now ${reportStatusLabels[transition.to]}.`,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{transition.label}</DialogTitle>
+          <DialogDescription>
+            Move report {report.reference} from {reportStatusLabels[transition.from]} to {reportStatusLabels[transition.to]}.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {transition.requiresOutcome && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="outcome"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Outcome *</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} rows={3} className="bg-input border-border resize-none" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="actionTaken"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Action Taken *</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} rows={3} className="bg-input border-border resize-none" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={2} className="bg-input border-border resize-none" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {transition.label}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ReportWorkflowProps {
+  report: ReportRecord;
+}
+
+// Current status, outcome, the actions open to this user and the status history.
+export function ReportWorkflow({ report }: ReportWorkflowProps) {
+  const { roles } = useAuth();
+  const { toast } = useToast();
+  const { data: history = [] } = useReportHistory(report.id);
+  const signOff = useSignOffReport();
+  const [activeTransition, setActiveTransition] = useState<ReportTransition | null>(null);
+  const transitions = availableTransitions(report.status, roles);
+
+  const handleSignOff = async () => {
+    try {
+      await signOff.mutateAsync(report.id);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Not Signed Off",
+        description: error instanceof Error ? error.message : "The report could not be signed off.",
+      });
+      return;
+    }
+
+    toast({ title: "Signed Off", description: `Report ${report.reference} has been signed off.` });
+  };
+
+  return (
+    <Card className="bg-form-background border-border/50 shadow-lg print:shadow-none print:break-inside-avoid">
+      <CardHeader className="bg-form-section print:py-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-xl font-semibold text-foreground">Review</CardTitle>
+          <div className="flex items-center gap-2">
+            {report.severity && <ReportSeverityBadge severity={report.severity} />}
+            <ReportStatusBadge status={report.status} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 print:p-4 space-y-6">
+        {(report.outcome || report.action_taken) && (
+          <dl className="grid grid-cols-1 md:grid-cols-2 print:grid-cols-2 gap-6">
+            <div>
+              <dt className="text-sm font-medium text-muted-foreground">Outcome</dt>
+              <dd className="mt-1 whitespace-pre-wrap">{report.outcome || "N/A"}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-muted-foreground">Action Taken</dt>
+              <dd className="mt-1 whitespace-pre-wrap">{report.action_taken || "N/A"}</dd>
+            </div>
+          </dl>
+        )}
+
+        {report.requires_manager_signoff && (
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Manager Sign-off</p>
+            <p className="mt-1">
+              {report.signed_off_at
+                ? `Signed off ${format(parseISO(report.signed_off_at), "PPP p")}${report.signed_off_by_name ? ` by ${report.signed_off_by_name}` : ""}`
+                : "Awaiting garage manager sign-off before the report can be closed"}
+            </p>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <ol className="space-y-3 border-l-2 border-border pl-4">
+            {history.map((entry) => (
+              <li key={entry.id}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <ReportStatusBadge status={entry.to_status} />
+                  <span className="text-sm text-muted-foreground">
+                    {format(parseISO(entry.changed_at), "PPP p")}
+                    {entry.changed_by_name && ` by ${entry.changed_by_name}`}
+                  </span>
+                </div>
+                {entry.note && <p className="mt-1 text-sm whitespace-pre-wrap">{entry.note}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {(transitions.length > 0 || canSignOff(report, roles)) && (
+          <div className="flex flex-wrap gap-2 print:hidden">
+            {canSignOff(report, roles) && (
+              <Button variant="outline" onClick={handleSignOff} disabled={signOff.isPending}>
+                Sign Off
+              </Button>
+            )}
+            {transitions.map((transition) => (
+              <Button
+                key={transition.to}
+                variant="outline"
+                onClick={() => setActiveTransition(transition)}
+                disabled={transition.requiresSignOff && awaitingSignOff(report)}
+              >
+                {transition.label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {activeTransition && (
+        <TransitionDialog
+          report={report}
+          transition={activeTransition}
+          onClose={() => setActiveTransition(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+import type { ReactNode } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { canAccess, type Page } from "@/lib/access";
+
+interface RequireAccessProps {
+  page: Page;
+  children: ReactNode;
+}
+
+export function RequireAccess({ page, children }: RequireAccessProps) {
+  const { user, roles, loading, signOut } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" state={{ from: location.pathname + location.search }} replace />;
+  }
+
+  // New accounts have no role until an admin grants one
+  if (roles.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center max-w-md px-4">
+          <ShieldAlert className="mx-auto mb-4 h-12 w-12 text-notice-foreground" />
+          <h1 className="text-2xl font-bold mb-2">Awaiting Access</h1>
+          <p className="text-muted-foreground mb-6">
+            Your account has been created but has not been given a role yet. Ask an administrator to grant you access.
+          </p>
+          <Button variant="outline" onClick={signOut}>
+            Sign Out
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!canAccess(page, roles)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center max-w-md px-4">
+          <ShieldAlert className="mx-auto mb-4 h-12 w-12 text-notice-foreground" />
+          <h1 className="text-2xl font-bold mb-2">Access Restricted</h1>
+          <p className="text-muted-foreground mb-6">
+            Your account does not have permission to view this page. Ask an administrator if you need access.
+          </p>
+          <Button asChild variant="outline">
+            <Link to="/">Return to Home</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
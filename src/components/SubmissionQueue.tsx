@@ -0,0 +1,87 @@
+import { format, parseISO } from "date-fns";
+import { CloudOff, RotateCw, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { useSubmissionQueue } from "@/hooks/use-submission-queue";
+import type { QueuedSubmissionStatus } from "@/lib/submission-queue";
+
+const statusLabels: Record<QueuedSubmissionStatus, string> = {
+  queued: "Waiting for connection",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+};
+
+const statusStyles: Record<QueuedSubmissionStatus, string> = {
+  queued: "border-transparent bg-notice-background text-notice-foreground hover:bg-notice-background",
+  sending: "border-transparent bg-secondary text-secondary-foreground hover:bg-secondary",
+  sent: "border-transparent bg-primary text-primary-foreground hover:bg-primary",
+  failed: "border-transparent bg-destructive text-destructive-foreground hover:bg-destructive",
+};
+
+interface SubmissionQueueProps {
+  queue: ReturnType<typeof useSubmissionQueue>;
+}
+
+// Offline banner and the sync state of each report submitted without a connection
+export function SubmissionQueue({ queue }: SubmissionQueueProps) {
+  const { submissions, online, retry, remove } = queue;
+
+  return (
+    <div className="space-y-4 mb-4 print:hidden">
+      {!online && (
+        <div className="flex items-center gap-2 p-3 bg-notice-background border border-notice-foreground/20 rounded-lg text-notice-foreground">
+          <CloudOff className="h-4 w-4 shrink-0" />
+          <p className="text-sm font-medium">
+            You are offline. Reports you send will be queued and sent automatically when the connection returns.
+          </p>
+        </div>
+      )}
+
+      {submissions.length > 0 && (
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section py-3">
+            <CardTitle className="text-base font-semibold text-foreground">Queued Reports</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4">
+            <ul className="divide-y divide-border">
+              {submissions.map((submission) => (
+                <li key={submission.id} className="flex flex-wrap items-center gap-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{submission.reference ?? submission.label ?? "Officials Report"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Queued {format(parseISO(submission.queuedAt), "dd MMM HH:mm")}
+                      {submission.error && ` – ${submission.error}`}
+                    </p>
+                  </div>
+                  <Badge className={cn("whitespace-nowrap", statusStyles[submission.status])}>
+                    {statusLabels[submission.status]}
+                  </Badge>
+                  {submission.status === "failed" && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => retry(submission)} disabled={!online}>
+                      <RotateCw className="mr-1 h-4 w-4" />
+                      Retry
+                    </Button>
+                  )}
+                  {(submission.status === "sent" || submission.status === "failed") && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(submission.id)}
+                      aria-label="Dismiss"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import type { UseFormReturn } from "react-hook-form";
+import { FieldWarning } from "@/components/FieldWarning";
+import { Button } from "@/components/ui/button";
+import type { FormData } from "@/lib/officials-report";
+import { formatTimeOfDay, type TimetableTrip } from "@/lib/timetable";
+
+type ScheduledField = "runningNumber" | "dutyNumber" | "tripNumber";
+
+const scheduledFieldLabels: Record<ScheduledField, string> = {
+  runningNumber: "Running number",
+  dutyNumber: "Duty number",
+  tripNumber: "Trip number",
+};
+
+interface ScheduleWarningProps {
+  // Journeys in progress at the time of the incident, or null when there is nothing to check against
+  trips: TimetableTrip[] | null;
+  field: ScheduledField;
+  value: string;
+}
+
+// Flags a number that none of the journeys scheduled at the time of the incident carry.
+export function ScheduleWarning({ trips, field, value }: ScheduleWarningProps) {
+  const known = trips?.map((trip) => trip[field]).filter(Boolean) ?? [];
+  if (!value || known.length === 0 || known.includes(value.trim())) return null;
+
+  return <FieldWarning>{scheduledFieldLabels[field]} {value} is not in the timetable at this time.</FieldWarning>;
+}
+
+interface TimetableSuggestionsProps {
+  form: UseFormReturn<FormData>;
+  trips: TimetableTrip[] | null;
+}
+
+// Journeys the timetable has on the route at the time of the incident; choosing one
+// fills in its running, duty and trip numbers and termini.
+export function TimetableSuggestions({ form, trips }: TimetableSuggestionsProps) {
+  if (!trips) return null;
+
+  if (trips.length === 0) {
+    return (
+      <FieldWarning className="mt-6">
+        The timetable has no journeys on this route at the time of the incident.
+      </FieldWarning>
+    );
+  }
+
+  const applyTrip = (trip: TimetableTrip) => {
+    const shouldValidate = form.formState.isSubmitted;
+    form.setValue("runningNumber", trip.runningNumber, { shouldValidate });
+    form.setValue("tripNumber", trip.tripNumber, { shouldValidate });
+    if (trip.dutyNumber) form.setValue("dutyNumber", trip.dutyNumber, { shouldValidate });
+    form.setValue("travellingFrom", trip.origin, { shouldValidate });
+    form.setValue("destination", trip.destination, { shouldValidate });
+  };
+
+  return (
+    <div className="mt-6 space-y-2 print:hidden">
+      <p className="text-sm font-medium text-foreground">Scheduled Journeys</p>
+      <ul className="divide-y divide-border rounded-md border border-border">
+        {trips.map((trip) => (
+          <li key={`${trip.serviceId}-${trip.tripNumber}`} className="flex items-center justify-between gap-4 p-3 text-sm">
+            <div>
+              <p className="font-medium">
+                Running {trip.runningNumber || "—"} · Trip {trip.tripNumber}
+                {trip.dutyNumber && ` · Duty ${trip.dutyNumber}`}
+              </p>
+              <p className="text-muted-foreground">
+                {formatTimeOfDay(trip.start)}–{formatTimeOfDay(trip.end)} {trip.origin} to {trip.destination}
+              </p>
+            </div>
+            <Button type="button" variant="outline" size="sm" onClick={() => applyTrip(trip)}>
+              Use
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Link } from "react-router-dom";
+import { LogIn, LogOut, UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+
+export function UserMenu() {
+  const { user, profile, signOut } = useAuth();
+
+  if (!user) {
+    return (
+      <Button asChild variant="ghost" size="sm">
+        <Link to="/auth">
+          <LogIn className="mr-2 h-4 w-4" />
+          Sign In
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button asChild variant="ghost" size="sm">
+        <Link to="/profile">
+          <UserRound className="mr-2 h-4 w-4" />
+          {profile?.full_name || user.email}
+        </Link>
+      </Button>
+      <Button variant="ghost" size="sm" onClick={signOut}>
+        <LogOut className="mr-2 h-4 w-4" />
+        Sign Out
+      </Button>
+    </div>
+  );
+}
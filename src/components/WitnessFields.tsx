@@ -0,0 +1,139 @@
+import { useFieldArray, type UseFormReturn } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import type { FormData } from "@/lib/officials-report";
+import { emptyWitness, witnessRoleLabels, witnessRoles } from "@/lib/witnesses";
+
+// One block per witness, added and removed as the controller needs
+export function WitnessFields({ form }: { form: UseFormReturn<FormData> }) {
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "witnesses" });
+
+  return (
+    <div className="space-y-6">
+      {fields.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Add anyone who saw the incident: passengers, members of the public or other staff.
+        </p>
+      )}
+
+      {fields.map((item, index) => (
+        <div key={item.id} className="space-y-4 rounded-lg border border-border p-4">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-medium text-foreground">Witness {index + 1}</h3>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => remove(index)}
+              aria-label={`Remove witness ${index + 1}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+              control={form.control}
+              name={`witnesses.${index}.name`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-foreground font-medium">Name *</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="bg-input border-border" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`witnesses.${index}.role`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-foreground font-medium">Role *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="bg-input border-border">
+                        <SelectValue placeholder="Select role" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-popover border-border">
+                      {witnessRoles.map((role) => (
+                        <SelectItem key={role} value={role} className="hover:bg-accent">
+                          {witnessRoleLabels[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`witnesses.${index}.contact`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-foreground font-medium">Contact</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Phone number or email" className="bg-input border-border" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`witnesses.${index}.consentToContact`}
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 md:pt-8">
+                  <div>
+                    <FormLabel className="text-foreground font-medium">Consents to be Contacted</FormLabel>
+                    <FormDescription>Only contact witnesses who have agreed to it</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name={`witnesses.${index}.statement`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-foreground font-medium">Statement</FormLabel>
+                <FormControl>
+                  <Textarea
+                    {...field}
+                    rows={3}
+                    placeholder="What the witness saw, in their words"
+                    className="bg-input border-border resize-none"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => append(emptyWitness())}
+        className="bg-input border-border hover:bg-accent"
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Witness
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums, Tables } from "@/integrations/supabase/types";
+import { clearReferenceCache } from "@/lib/reference-cache";
+import { clearDrafts } from "@/lib/report-drafts";
+import { clearQueuedSubmissions } from "@/lib/submission-queue";
+
+export type Profile = Tables<"profiles">;
+export type AppRole = Enums<"app_role">;
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  profile: Profile | null;
+  roles: AppRole[];
+  hasRole: (...roles: AppRole[]) => boolean;
+  loading: boolean;
+  signOut: () => Promise<void>;
+}
+
+// The last known profile and roles are cached so the app still opens offline
+const cacheKey = (kind: "profile" | "roles", userId: string) => `officials-report:${kind}:${userId}`;
+
+const readCache = <T,>(kind: "profile" | "roles", userId: string | undefined): T | undefined => {
+  if (!userId) return undefined;
+  try {
+    const cached = localStorage.getItem(cacheKey(kind, userId));
+    return cached ? (JSON.parse(cached) as T) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const writeCache = <T,>(kind: "profile" | "roles", userId: string, value: T) => {
+  localStorage.setItem(cacheKey(kind, userId), JSON.stringify(value));
+  return value;
+};
+
+const clearCache = (userId: string) => {
+  localStorage.removeItem(cacheKey("profile", userId));
+  localStorage.removeItem(cacheKey("roles", userId));
+};
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const profileQueryKey = (userId: string | undefined) => ["profile", userId] as const;
+export const rolesQueryKey = (userId: string | undefined) => ["roles", userId] as const;
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+
+  useEffect(() => {
+    // Subscribe before reading the stored session so no change is missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setSessionLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setSessionLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const user = session?.user ?? null;
+
+  const { data: profile = null, isLoading: profileLoading } = useQuery({
+    queryKey: profileQueryKey(user?.id),
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("id", user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return writeCache("profile", user!.id, data);
+    },
+    placeholderData: () => readCache<Profile | null>("profile", user?.id),
+  });
+
+  const { data: roles = [], isLoading: rolesLoading } = useQuery({
+    queryKey: rolesQueryKey(user?.id),
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user!.id);
+      if (error) throw error;
+      return writeCache("roles", user!.id, data.map(({ role }) => role));
+    },
+    placeholderData: () => readCache<AppRole[]>("roles", user?.id),
+  });
+
+  const hasRole = (...wanted: AppRole[]) => wanted.some((role) => roles.includes(role));
+
+  // Nothing the user saved on this device is left behind for the next person to sign in
+  const signOut = async () => {
+    const userId = user?.id;
+    await supabase.auth.signOut();
+    queryClient.clear();
+    clearReferenceCache();
+    if (!userId) return;
+    clearCache(userId);
+    clearDrafts(userId);
+    await clearQueuedSubmissions(userId);
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user,
+        profile,
+        roles,
+        hasRole,
+        loading: sessionLoading || (!!user && (profileLoading || rolesLoading)),
+        signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,22 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchEmployees, importEmployees, type Employee } from "@/lib/employees";
+import { readReferenceCache, writeReferenceCache } from "@/lib/reference-cache";
+
+export const employeesQueryKey = ["employees"] as const;
+
+export function useEmployees() {
+  return useQuery({
+    queryKey: employeesQueryKey,
+    queryFn: async () => writeReferenceCache("employees", await fetchEmployees()),
+    staleTime: 10 * 60 * 1000,
+    placeholderData: () => readReferenceCache<Employee[]>("employees"),
+  });
+}
+
+export function useImportEmployees() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: importEmployees,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: employeesQueryKey }),
+  });
+}
@@ -0,0 +1,24 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchGarages, saveGarage, type Garage, type GarageInput } from "@/lib/garages";
+import { readReferenceCache, writeReferenceCache } from "@/lib/reference-cache";
+
+export const garagesQueryKey = ["garages"] as const;
+
+// Reference data rarely changes, so it is cached for the session
+export function useGarages({ includeInactive = false } = {}) {
+  return useQuery({
+    queryKey: garagesQueryKey,
+    queryFn: async () => writeReferenceCache("garages", await fetchGarages()),
+    staleTime: 10 * 60 * 1000,
+    placeholderData: () => readReferenceCache<Garage[]>("garages"),
+    select: (garages) => (includeInactive ? garages : garages.filter((garage) => garage.active)),
+  });
+}
+
+export function useSaveGarage() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ input, id }: { input: GarageInput; id?: string }) => saveGarage(input, id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: garagesQueryKey }),
+  });
+}
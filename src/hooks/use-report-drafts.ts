@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import { useAuth } from "@/hooks/use-auth";
+import type { FormData } from "@/lib/officials-report";
+import {
+  defaultDraftName,
+  deleteRemoteDraft,
+  fetchRemoteDrafts,
+  hasDraftContent,
+  loadDrafts,
+  mergeDrafts,
+  storeDrafts,
+  upsertRemoteDraft,
+  type DraftValues,
+  type ReportDraft,
+} from "@/lib/report-drafts";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Continuously saves the form to the current draft and lets the user switch between drafts.
+export function useReportDrafts(form: UseFormReturn<FormData>) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [drafts, setDrafts] = useState<ReportDraft[]>(() => (userId ? loadDrafts(userId) : []));
+  const [currentDraftId, setCurrentDraftId] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const draftsRef = useRef(drafts);
+  const currentDraftIdRef = useRef<string | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  // Set while a draft is loaded into the form so that reset does not trigger a save
+  const restoringRef = useRef(false);
+
+  const updateDrafts = useCallback(
+    (next: ReportDraft[]) => {
+      draftsRef.current = next;
+      if (userId) storeDrafts(userId, next);
+      setDrafts(next);
+    },
+    [userId]
+  );
+
+  const selectDraft = (id: string | null) => {
+    currentDraftIdRef.current = id;
+    setCurrentDraftId(id);
+  };
+
+  const syncDraft = useCallback(
+    (draft: ReportDraft) => {
+      if (!user) return;
+      upsertRemoteDraft(draft).catch((error) => console.error("Could not sync draft:", error));
+    },
+    [user]
+  );
+
+  const saveDraft = useCallback(
+    (values: DraftValues) => {
+      if (!hasDraftContent(values)) return;
+
+      const id = currentDraftIdRef.current ?? crypto.randomUUID();
+      const updatedAt = new Date();
+      const existing = draftsRef.current.find((draft) => draft.id === id);
+      const saved: ReportDraft = {
+        id,
+        name: existing?.name ?? defaultDraftName(values),
+        values,
+        updatedAt: updatedAt.toISOString(),
+      };
+
+      updateDrafts([saved, ...draftsRef.current.filter((draft) => draft.id !== id)]);
+      selectDraft(id);
+      setLastSavedAt(updatedAt);
+      syncDraft(saved);
+    },
+    [syncDraft, updateDrafts]
+  );
+
+  // Debounced autosave on every change
+  useEffect(() => {
+    const subscription = form.watch((values) => {
+      if (restoringRef.current) return;
+      clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(() => saveDraft(values as DraftValues), AUTOSAVE_DELAY_MS);
+    });
+    return () => {
+      subscription.unsubscribe();
+      clearTimeout(timerRef.current);
+    };
+  }, [form, saveDraft]);
+
+  // Pull drafts saved on other devices once signed in
+  useEffect(() => {
+    if (!user) return;
+    fetchRemoteDrafts()
+      .then((remote) => updateDrafts(mergeDrafts(draftsRef.current, remote)))
+      .catch((error) => console.error("Could not load synced drafts:", error));
+  }, [user, updateDrafts]);
+
+  const resumeDraft = (id: string) => {
+    const draft = draftsRef.current.find((candidate) => candidate.id === id);
+    if (!draft) return;
+
+    clearTimeout(timerRef.current);
+    restoringRef.current = true;
+    form.reset({ ...form.formState.defaultValues, ...draft.values });
+    restoringRef.current = false;
+    selectDraft(draft.id);
+    setLastSavedAt(new Date(draft.updatedAt));
+  };
+
+  // Starts a fresh report; the current draft stays in the list
+  const startNewDraft = () => {
+    clearTimeout(timerRef.current);
+    restoringRef.current = true;
+    form.reset();
+    restoringRef.current = false;
+    selectDraft(null);
+    setLastSavedAt(null);
+  };
+
+  const renameDraft = (id: string, name: string) => {
+    const draft = draftsRef.current.find((candidate) => candidate.id === id);
+    if (!draft) return;
+
+    const renamed = { ...draft, name, updatedAt: new Date().toISOString() };
+    updateDrafts(draftsRef.current.map((candidate) => (candidate.id === id ? renamed : candidate)));
+    syncDraft(renamed);
+  };
+
+  const deleteDraft = (id: string) => {
+    updateDrafts(draftsRef.current.filter((draft) => draft.id !== id));
+    if (currentDraftIdRef.current === id) {
+      selectDraft(null);
+      setLastSavedAt(null);
+    }
+    if (user) deleteRemoteDraft(id).catch((error) => console.error("Could not delete synced draft:", error));
+  };
+
+  // Called once a report has been submitted
+  const discardCurrentDraft = () => {
+    clearTimeout(timerRef.current);
+    if (currentDraftIdRef.current) deleteDraft(currentDraftIdRef.current);
+  };
+
+  return {
+    drafts,
+    currentDraftId,
+    lastSavedAt,
+    resumeDraft,
+    startNewDraft,
+    renameDraft,
+    deleteDraft,
+    discardCurrentDraft,
+  };
+}
@@ -0,0 +1,29 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchReportSubjects,
+  saveReportSubject,
+  type ReportSubject,
+  type ReportSubjectInput,
+} from "@/lib/report-subjects";
+import { readReferenceCache, writeReferenceCache } from "@/lib/reference-cache";
+
+export const reportSubjectsQueryKey = ["report-subjects"] as const;
+
+// Retired subjects are only needed for filtering and managing historic reports
+export function useReportSubjects({ includeRetired = false } = {}) {
+  return useQuery({
+    queryKey: reportSubjectsQueryKey,
+    queryFn: async () => writeReferenceCache("report-subjects", await fetchReportSubjects()),
+    staleTime: 10 * 60 * 1000,
+    placeholderData: () => readReferenceCache<ReportSubject[]>("report-subjects"),
+    select: (subjects) => (includeRetired ? subjects : subjects.filter((subject) => !subject.retired_at)),
+  });
+}
+
+export function useSaveReportSubject() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ input, id }: { input: ReportSubjectInput; id?: string }) => saveReportSubject(input, id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: reportSubjectsQueryKey }),
+  });
+}
@@ -0,0 +1,176 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchReport,
+  fetchReportHistory,
+  fetchReports,
+  signOffReport,
+  transitionReportStatus,
+} from "@/lib/reports";
+import type { ReportFilters } from "@/lib/report-filters";
+import { fetchReportAttachments, uploadReportAttachments } from "@/lib/attachments";
+import { fetchReportWitnesses } from "@/lib/witnesses";
+import { fetchEmployeeStatement, saveEmployeeStatement, type EmployeeStatementInput } from "@/lib/employee-statements";
+import { fetchEmployeeHistory, type EmployeeHistoryOptions } from "@/lib/employee-history";
+import { fetchAnalyticsReports, type DashboardFilters } from "@/lib/report-analytics";
+import {
+  fetchHeatmapCounts,
+  fetchHeatmapReports,
+  type HeatmapCell,
+  type HeatmapFilters,
+} from "@/lib/report-heatmap";
+import {
+  createCctvRequest,
+  fetchCctvRequest,
+  updateCctvRequest,
+  type CctvRequestInput,
+  type CctvRequestStatus,
+} from "@/lib/cctv";
+
+export const reportsQueryKey = ["reports"] as const;
+
+export function useReports(filters: ReportFilters) {
+  return useQuery({
+    queryKey: [...reportsQueryKey, "list", filters],
+    queryFn: () => fetchReports(filters),
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Every report in the dashboard's range, kept on screen while new filters load
+export function useAnalyticsReports(filters: DashboardFilters) {
+  return useQuery({
+    queryKey: [...reportsQueryKey, "analytics", filters],
+    queryFn: () => fetchAnalyticsReports(filters),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useHeatmapCounts(filters: HeatmapFilters) {
+  return useQuery({
+    queryKey: [...reportsQueryKey, "heatmap", filters],
+    queryFn: () => fetchHeatmapCounts(filters),
+    placeholderData: keepPreviousData,
+  });
+}
+
+// The reports behind one heatmap cell, loaded when it is opened
+export function useHeatmapReports(filters: HeatmapFilters, cell: HeatmapCell | null) {
+  return useQuery({
+    queryKey: [...reportsQueryKey, "heatmap", filters, cell],
+    queryFn: () => fetchHeatmapReports(filters, cell!),
+    enabled: !!cell,
+  });
+}
+
+export function useReport(id: string | undefined) {
+  return useQuery({
+    queryKey: [...reportsQueryKey, "detail", id],
+    queryFn: () => fetchReport(id!),
+    enabled: !!id,
+  });
+}
+
+export function useReportHistory(id: string | undefined) {
+  return useQuery({
+    queryKey: [...reportsQueryKey, "history", id],
+    queryFn: () => fetchReportHistory(id!),
+    enabled: !!id,
+  });
+}
+
+export function useReportWitnesses(id: string | undefined) {
+  return useQuery({
+    queryKey: [...reportsQueryKey, "witnesses", id],
+    queryFn: () => fetchReportWitnesses(id!),
+    enabled: !!id,
+  });
+}
+
+export function useReportAttachments(id: string | undefined) {
+  return useQuery({
+    queryKey: [...reportsQueryKey, "attachments", id],
+    queryFn: () => fetchReportAttachments(id!),
+    enabled: !!id,
+    // Refetched before the signed links expire
+    staleTime: 30 * 60 * 1000,
+    refetchInterval: 30 * 60 * 1000,
+  });
+}
+
+export function useUploadReportAttachments() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ reportId, files }: { reportId: string; files: File[] }) => uploadReportAttachments(reportId, files),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: reportsQueryKey }),
+  });
+}
+
+export function useCctvRequest(id: string | undefined) {
+  return useQuery({
+    queryKey: [...reportsQueryKey, "cctv", id],
+    queryFn: () => fetchCctvRequest(id!),
+    enabled: !!id,
+  });
+}
+
+export function useCreateCctvRequest() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ reportId, input }: { reportId: string; input: CctvRequestInput }) =>
+      createCctvRequest(reportId, input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: reportsQueryKey }),
+  });
+}
+
+export function useUpdateCctvRequest() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, status, notes }: { id: string; status: CctvRequestStatus; notes: string | null }) =>
+      updateCctvRequest(id, status, notes),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: reportsQueryKey }),
+  });
+}
+
+// Only garage managers, hub leaders and admins may read statements
+export function useEmployeeStatement(id: string | undefined, enabled: boolean) {
+  return useQuery({
+    queryKey: [...reportsQueryKey, "statement", id],
+    queryFn: () => fetchEmployeeStatement(id!),
+    enabled: !!id && enabled,
+  });
+}
+
+export function useSaveEmployeeStatement() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ reportId, input }: { reportId: string; input: EmployeeStatementInput }) =>
+      saveEmployeeStatement(reportId, input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: reportsQueryKey }),
+  });
+}
+
+// Counts of the employee's prior reports by subject, refreshed whenever reports change
+export function useEmployeeHistory(employeeNumber: string | undefined, options: EmployeeHistoryOptions = {}) {
+  const number = employeeNumber?.trim();
+  return useQuery({
+    queryKey: [...reportsQueryKey, "employee-history", number, options.asOf?.toDateString(), options.excludeReportId],
+    queryFn: () => fetchEmployeeHistory(number!, options),
+    enabled: !!number,
+  });
+}
+
+export function useTransitionReportStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: transitionReportStatus,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: reportsQueryKey }),
+  });
+}
+
+export function useSignOffReport() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: signOffReport,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: reportsQueryKey }),
+  });
+}
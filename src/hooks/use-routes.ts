@@ -0,0 +1,23 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchRoutes, saveRoute, type Route, type RouteInput } from "@/lib/routes";
+import { readReferenceCache, writeReferenceCache } from "@/lib/reference-cache";
+
+export const routesQueryKey = ["routes"] as const;
+
+export function useRoutes() {
+  return useQuery({
+    queryKey: routesQueryKey,
+    queryFn: async () => writeReferenceCache("routes", await fetchRoutes()),
+    staleTime: 10 * 60 * 1000,
+    placeholderData: () => readReferenceCache<Route[]>("routes"),
+  });
+}
+
+export function useSaveRoute() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ input, garageIds, id }: { input: RouteInput; garageIds: string[]; id?: string }) =>
+      saveRoute(input, garageIds, id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: routesQueryKey }),
+  });
+}
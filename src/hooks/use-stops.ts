@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchNearbyStops, importStops, searchStops, type GeoPosition } from "@/lib/stops";
+
+export const stopsQueryKey = ["stops"] as const;
+
+// The stop list is too large to hold in the browser, so it is searched on the server
+export function useStopSearch(term: string) {
+  return useQuery({
+    queryKey: [...stopsQueryKey, "search", term],
+    queryFn: () => searchStops(term),
+    enabled: term.trim().length >= 2,
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+export function useNearbyStops(position: GeoPosition | null) {
+  return useQuery({
+    queryKey: [...stopsQueryKey, "nearby", position],
+    queryFn: () => fetchNearbyStops(position!),
+    enabled: !!position,
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+export function useImportStops() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: importStops,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: stopsQueryKey }),
+  });
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { reportsQueryKey } from "@/hooks/use-reports";
+import type { FormData } from "@/lib/officials-report";
+import {
+  enqueueSubmission,
+  listQueuedSubmissions,
+  removeQueuedSubmission,
+  replaySubmission,
+  resetStaleSubmissions,
+  saveQueuedSubmission,
+  type QueuedSubmission,
+} from "@/lib/submission-queue";
+
+// Tracks offline submissions and replays them whenever the browser comes back online.
+export function useSubmissionQueue() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const [submissions, setSubmissions] = useState<QueuedSubmission[]>([]);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const replayingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    setSubmissions(userId ? await listQueuedSubmissions(userId) : []);
+  }, [userId]);
+
+  const replay = useCallback(async () => {
+    if (!userId || replayingRef.current || !navigator.onLine) return;
+    replayingRef.current = true;
+
+    try {
+      const pending = (await listQueuedSubmissions(userId)).filter((submission) => submission.status === "queued");
+      for (const submission of pending) {
+        setSubmissions((previous) =>
+          previous.map((item) => (item.id === submission.id ? { ...item, status: "sending" } : item))
+        );
+        const result = await replaySubmission(submission);
+        await refresh();
+
+        if (result.status === "sent") {
+          toast({
+            title: "Queued Report Sent",
+            description: result.error
+              ? `Report ${result.reference}: ${result.error}`
+              : `Report ${result.reference} has been saved and emailed.`,
+          });
+        }
+      }
+      if (pending.length) await queryClient.invalidateQueries({ queryKey: reportsQueryKey });
+    } finally {
+      replayingRef.current = false;
+    }
+  }, [queryClient, refresh, toast, userId]);
+
+  useEffect(() => {
+    (userId ? resetStaleSubmissions(userId) : Promise.resolve()).then(refresh).then(replay);
+
+    const goOnline = () => {
+      setOnline(true);
+      replay();
+    };
+    const goOffline = () => setOnline(false);
+
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, [refresh, replay, userId]);
+
+  const enqueue = async (data: FormData, clientId: string, attachments: File[] = []) => {
+    if (!userId) throw new Error("Sign in to queue reports");
+    const submission = await enqueueSubmission(userId, data, clientId, attachments);
+    await refresh();
+    return submission;
+  };
+
+  const retry = async (submission: QueuedSubmission) => {
+    await saveQueuedSubmission({ ...submission, status: "queued", error: undefined });
+    await refresh();
+    await replay();
+  };
+
+  const remove = async (id: string) => {
+    await removeQueuedSubmission(id);
+    await refresh();
+  };
+
+  return { submissions, online, enqueue, retry, remove };
+}
@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useRoutes } from "@/hooks/use-routes";
+import { importGtfs } from "@/lib/gtfs";
+import { clearTimetable, loadTimetable, saveTimetable } from "@/lib/timetable";
+
+export const timetableQueryKey = ["timetable"] as const;
+
+// Read from this device's storage, so it only changes when imported or removed here
+export function useTimetable() {
+  return useQuery({
+    queryKey: timetableQueryKey,
+    queryFn: loadTimetable,
+    staleTime: Infinity,
+  });
+}
+
+export function useImportTimetable() {
+  const queryClient = useQueryClient();
+  const { data: routes = [] } = useRoutes();
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const timetable = await importGtfs(file, routes.map((route) => route.route_number));
+      await saveTimetable(timetable);
+      return timetable;
+    },
+    onSuccess: (timetable) => queryClient.setQueryData(timetableQueryKey, timetable),
+  });
+}
+
+export function useClearTimetable() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: clearTimetable,
+    onSuccess: () => queryClient.setQueryData(timetableQueryKey, null),
+  });
+}
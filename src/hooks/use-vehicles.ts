@@ -0,0 +1,22 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchVehicles, importVehicles, type Vehicle } from "@/lib/vehicles";
+import { readReferenceCache, writeReferenceCache } from "@/lib/reference-cache";
+
+export const vehiclesQueryKey = ["vehicles"] as const;
+
+export function useVehicles() {
+  return useQuery({
+    queryKey: vehiclesQueryKey,
+    queryFn: async () => writeReferenceCache("vehicles", await fetchVehicles()),
+    staleTime: 10 * 60 * 1000,
+    placeholderData: () => readReferenceCache<Vehicle[]>("vehicles"),
+  });
+}
+
+export function useImportVehicles() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: importVehicles,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: vehiclesQueryKey }),
+  });
+}
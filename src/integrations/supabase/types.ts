@@ -14,16 +14,765 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      cctv_requests: {
+        Row: {
+          cameras: string[]
+          fleet_number: string
+          id: string
+          notes: string | null
+          report_id: string
+          requested_at: string
+          requested_by: string | null
+          status: Database["public"]["Enums"]["cctv_request_status"]
+          updated_at: string
+          window_end: string
+          window_start: string
+        }
+        Insert: {
+          cameras?: string[]
+          fleet_number: string
+          id?: string
+          notes?: string | null
+          report_id: string
+          requested_at?: string
+          requested_by?: string | null
+          status?: Database["public"]["Enums"]["cctv_request_status"]
+          updated_at?: string
+          window_end: string
+          window_start: string
+        }
+        Update: {
+          cameras?: string[]
+          fleet_number?: string
+          id?: string
+          notes?: string | null
+          report_id?: string
+          requested_at?: string
+          requested_by?: string | null
+          status?: Database["public"]["Enums"]["cctv_request_status"]
+          updated_at?: string
+          window_end?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cctv_requests_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: true
+            referencedRelation: "officials_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_statements: {
+        Row: {
+          created_at: string
+          given_at: string
+          id: string
+          recorded_by: string | null
+          recorded_by_name: string | null
+          report_id: string
+          statement: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          given_at?: string
+          id?: string
+          recorded_by?: string | null
+          recorded_by_name?: string | null
+          report_id: string
+          statement: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          given_at?: string
+          id?: string
+          recorded_by?: string | null
+          recorded_by_name?: string | null
+          report_id?: string
+          statement?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_statements_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: true
+            referencedRelation: "officials_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employees: {
+        Row: {
+          created_at: string
+          employee_number: string
+          full_name: string
+          grade: string | null
+          home_garage_id: string | null
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          employee_number: string
+          full_name: string
+          grade?: string | null
+          home_garage_id?: string | null
+          id?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          employee_number?: string
+          full_name?: string
+          grade?: string | null
+          home_garage_id?: string | null
+          id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employees_home_garage_id_fkey"
+            columns: ["home_garage_id"]
+            isOneToOne: false
+            referencedRelation: "garages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      garages: {
+        Row: {
+          active: boolean
+          address: string | null
+          cctv_retention_days: number
+          created_at: string
+          default_recipient_email: string | null
+          id: string
+          name: string
+          short_code: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          address?: string | null
+          cctv_retention_days?: number
+          created_at?: string
+          default_recipient_email?: string | null
+          id?: string
+          name: string
+          short_code: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          address?: string | null
+          cctv_retention_days?: number
+          created_at?: string
+          default_recipient_email?: string | null
+          id?: string
+          name?: string
+          short_code?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      officials_reports: {
+        Row: {
+          action_taken: string | null
+          actioned_at: string | null
+          client_id: string | null
+          closed_at: string | null
+          controller_name: string
+          created_at: string
+          date_of_incident: string
+          date_of_report: string
+          destination: string
+          details_of_incident: string
+          duty_number: string
+          employee_name: string
+          employee_number: string
+          extension_number: string
+          fleet_number: string
+          garage: string
+          id: string
+          location: string
+          location_latitude: number | null
+          location_longitude: number | null
+          location_stop_code: string | null
+          outcome: string | null
+          reference: string
+          registration: string | null
+          requires_manager_signoff: boolean
+          route: string
+          running_number: string
+          severity: Database["public"]["Enums"]["report_severity"] | null
+          signed_off_at: string | null
+          signed_off_by: string | null
+          signed_off_by_name: string | null
+          status: Database["public"]["Enums"]["report_status"]
+          subject_of_report: string
+          submitted_at: string | null
+          submitted_by: string | null
+          time_of_incident: string
+          travelling_from: string
+          trip_number: string
+          under_review_at: string | null
+        }
+        Insert: {
+          action_taken?: string | null
+          actioned_at?: string | null
+          client_id?: string | null
+          closed_at?: string | null
+          controller_name: string
+          created_at?: string
+          date_of_incident: string
+          date_of_report: string
+          destination: string
+          details_of_incident: string
+          duty_number: string
+          employee_name: string
+          employee_number: string
+          extension_number: string
+          fleet_number: string
+          garage: string
+          id?: string
+          location: string
+          location_latitude?: number | null
+          location_longitude?: number | null
+          location_stop_code?: string | null
+          outcome?: string | null
+          reference?: string
+          registration?: string | null
+          requires_manager_signoff?: boolean
+          route: string
+          running_number: string
+          severity?: Database["public"]["Enums"]["report_severity"] | null
+          signed_off_at?: string | null
+          signed_off_by?: string | null
+          signed_off_by_name?: string | null
+          status?: Database["public"]["Enums"]["report_status"]
+          subject_of_report: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          time_of_incident: string
+          travelling_from: string
+          trip_number: string
+          under_review_at?: string | null
+        }
+        Update: {
+          action_taken?: string | null
+          actioned_at?: string | null
+          client_id?: string | null
+          closed_at?: string | null
+          controller_name?: string
+          created_at?: string
+          date_of_incident?: string
+          date_of_report?: string
+          destination?: string
+          details_of_incident?: string
+          duty_number?: string
+          employee_name?: string
+          employee_number?: string
+          extension_number?: string
+          fleet_number?: string
+          garage?: string
+          id?: string
+          location?: string
+          location_latitude?: number | null
+          location_longitude?: number | null
+          location_stop_code?: string | null
+          outcome?: string | null
+          reference?: string
+          registration?: string | null
+          requires_manager_signoff?: boolean
+          route?: string
+          running_number?: string
+          severity?: Database["public"]["Enums"]["report_severity"] | null
+          signed_off_at?: string | null
+          signed_off_by?: string | null
+          signed_off_by_name?: string | null
+          status?: Database["public"]["Enums"]["report_status"]
+          subject_of_report?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          time_of_incident?: string
+          travelling_from?: string
+          trip_number?: string
+          under_review_at?: string | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string | null
+          extension_number: string
+          full_name: string
+          home_garage: string | null
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          extension_number?: string
+          full_name?: string
+          home_garage?: string | null
+          id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          extension_number?: string
+          full_name?: string
+          home_garage?: string | null
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      report_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          filename: string
+          id: string
+          report_id: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          filename: string
+          id?: string
+          report_id: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          filename?: string
+          id?: string
+          report_id?: string
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_attachments_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "officials_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_drafts: {
+        Row: {
+          data: Json
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          data?: Json
+          id: string
+          name: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          data?: Json
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      report_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changed_by_name: string | null
+          from_status: Database["public"]["Enums"]["report_status"] | null
+          id: string
+          note: string | null
+          report_id: string
+          to_status: Database["public"]["Enums"]["report_status"]
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          from_status?: Database["public"]["Enums"]["report_status"] | null
+          id?: string
+          note?: string | null
+          report_id: string
+          to_status: Database["public"]["Enums"]["report_status"]
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          from_status?: Database["public"]["Enums"]["report_status"] | null
+          id?: string
+          note?: string | null
+          report_id?: string
+          to_status?: Database["public"]["Enums"]["report_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_status_history_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "officials_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_subjects: {
+        Row: {
+          category: Database["public"]["Enums"]["report_subject_category"]
+          created_at: string
+          default_severity: Database["public"]["Enums"]["report_severity"]
+          id: string
+          name: string
+          repeat_alert_threshold: number | null
+          repeat_alert_window_days: number | null
+          requires_manager_signoff: boolean
+          retired_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          category: Database["public"]["Enums"]["report_subject_category"]
+          created_at?: string
+          default_severity?: Database["public"]["Enums"]["report_severity"]
+          id?: string
+          name: string
+          repeat_alert_threshold?: number | null
+          repeat_alert_window_days?: number | null
+          requires_manager_signoff?: boolean
+          retired_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["report_subject_category"]
+          created_at?: string
+          default_severity?: Database["public"]["Enums"]["report_severity"]
+          id?: string
+          name?: string
+          repeat_alert_threshold?: number | null
+          repeat_alert_window_days?: number | null
+          requires_manager_signoff?: boolean
+          retired_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      report_witnesses: {
+        Row: {
+          consent_to_contact: boolean
+          contact: string | null
+          created_at: string
+          id: string
+          name: string
+          position: number
+          report_id: string
+          role: Database["public"]["Enums"]["witness_role"]
+          statement: string | null
+        }
+        Insert: {
+          consent_to_contact?: boolean
+          contact?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          position: number
+          report_id: string
+          role: Database["public"]["Enums"]["witness_role"]
+          statement?: string | null
+        }
+        Update: {
+          consent_to_contact?: boolean
+          contact?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          report_id?: string
+          role?: Database["public"]["Enums"]["witness_role"]
+          statement?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_witnesses_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "officials_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      route_garages: {
+        Row: {
+          garage_id: string
+          route_id: string
+        }
+        Insert: {
+          garage_id: string
+          route_id: string
+        }
+        Update: {
+          garage_id?: string
+          route_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "route_garages_garage_id_fkey"
+            columns: ["garage_id"]
+            isOneToOne: false
+            referencedRelation: "garages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "route_garages_route_id_fkey"
+            columns: ["route_id"]
+            isOneToOne: false
+            referencedRelation: "routes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      routes: {
+        Row: {
+          active_from: string | null
+          active_to: string | null
+          created_at: string
+          id: string
+          route_number: string
+          terminus_a: string | null
+          terminus_b: string | null
+          updated_at: string
+        }
+        Insert: {
+          active_from?: string | null
+          active_to?: string | null
+          created_at?: string
+          id?: string
+          route_number: string
+          terminus_a?: string | null
+          terminus_b?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active_from?: string | null
+          active_to?: string | null
+          created_at?: string
+          id?: string
+          route_number?: string
+          terminus_a?: string | null
+          terminus_b?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stops: {
+        Row: {
+          atco_code: string
+          common_name: string
+          indicator: string | null
+          latitude: number | null
+          locality: string | null
+          longitude: number | null
+          naptan_code: string | null
+          street: string | null
+          updated_at: string
+        }
+        Insert: {
+          atco_code: string
+          common_name: string
+          indicator?: string | null
+          latitude?: number | null
+          locality?: string | null
+          longitude?: number | null
+          naptan_code?: string | null
+          street?: string | null
+          updated_at?: string
+        }
+        Update: {
+          atco_code?: string
+          common_name?: string
+          indicator?: string | null
+          latitude?: number | null
+          locality?: string | null
+          longitude?: number | null
+          naptan_code?: string | null
+          street?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          garage: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          garage?: string | null
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          garage?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      vehicles: {
+        Row: {
+          created_at: string
+          fleet_number: string
+          garage_id: string | null
+          id: string
+          in_service: boolean
+          registration: string
+          updated_at: string
+          vehicle_type: string | null
+        }
+        Insert: {
+          created_at?: string
+          fleet_number: string
+          garage_id?: string | null
+          id?: string
+          in_service?: boolean
+          registration: string
+          updated_at?: string
+          vehicle_type?: string | null
+        }
+        Update: {
+          created_at?: string
+          fleet_number?: string
+          garage_id?: string | null
+          id?: string
+          in_service?: boolean
+          registration?: string
+          updated_at?: string
+          vehicle_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicles_garage_id_fkey"
+            columns: ["garage_id"]
+            isOneToOne: false
+            referencedRelation: "garages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_view_report: {
+        Args: { _report: Database["public"]["Tables"]["officials_reports"]["Row"] }
+        Returns: boolean
+      }
+      current_user_garage: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      employee_report_history: {
+        Args: {
+          _as_of?: string
+          _employee_number: string
+          _exclude_report_id?: string
+        }
+        Returns: {
+          last_30_days: number
+          last_365_days: number
+          last_90_days: number
+          latest_incident: string
+          subject_of_report: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      report_heatmap: {
+        Args: {
+          _from: string
+          _garage?: string
+          _subject?: string
+          _to: string
+        }
+        Returns: {
+          day_of_week: number
+          hour: number
+          reports: number
+          route: string
+        }[]
+      }
+      save_route: {
+        Args: { _garage_ids: string[]; _id?: string; _route: Json }
+        Returns: string
+      }
+      sign_off_report: {
+        Args: { _report_id: string }
+        Returns: Database["public"]["Tables"]["officials_reports"]["Row"]
+      }
+      submit_officials_report: {
+        Args: { report: Json }
+        Returns: {
+          id: string
+          reference: string
+        }[]
+      }
+      transition_report_status: {
+        Args: {
+          _action_taken?: string
+          _note?: string
+          _outcome?: string
+          _report_id: string
+          _to_status: Database["public"]["Enums"]["report_status"]
+        }
+        Returns: Database["public"]["Tables"]["officials_reports"]["Row"]
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "controller" | "hub_leader" | "garage_manager" | "admin"
+      cctv_request_status: "requested" | "retrieved" | "not_available"
+      report_severity: "low" | "medium" | "high" | "critical"
+      report_status:
+        | "submitted"
+        | "under_review"
+        | "actioned"
+        | "closed"
+      report_subject_category: "conduct" | "operational" | "safety" | "customer"
+      witness_role: "passenger" | "member_of_public" | "staff" | "other"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +899,13 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["controller", "hub_leader", "garage_manager", "admin"],
+      cctv_request_status: ["requested", "retrieved", "not_available"],
+      report_severity: ["low", "medium", "high", "critical"],
+      report_status: ["submitted", "under_review", "actioned", "closed"],
+      report_subject_category: ["conduct", "operational", "safety", "customer"],
+      witness_role: ["passenger", "member_of_public", "staff", "other"],
+    },
   },
 } as const
@@ -0,0 +1,32 @@
+import type { AppRole } from "@/hooks/use-auth";
+
+// Roles allowed on each guarded page. An empty list means any signed-in user.
+export const pageAccess = {
+  newReport: [],
+  profile: [],
+  reports: [],
+  dashboard: ["hub_leader", "admin"],
+  heatmap: [],
+  timetable: [],
+  adminUsers: ["admin"],
+  adminGarages: ["admin"],
+  adminSubjects: ["admin"],
+  adminRoutes: ["admin"],
+  adminFleet: ["admin"],
+  adminEmployees: ["admin"],
+  adminStops: ["admin"],
+} satisfies Record<string, AppRole[]>;
+
+export type Page = keyof typeof pageAccess;
+
+export const canAccess = (page: Page, roles: AppRole[]) => {
+  const allowed: AppRole[] = pageAccess[page];
+  return roles.length > 0 && (allowed.length === 0 || allowed.some((role) => roles.includes(role)));
+};
+
+export const roleLabels: Record<AppRole, string> = {
+  controller: "Controller",
+  hub_leader: "Hub Leader",
+  garage_manager: "Garage Manager",
+  admin: "Admin",
+};
@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ReportDocumentAttachment } from "@/lib/report-formats";
+
+export type ReportAttachment = Tables<"report_attachments">;
+
+export interface StoredAttachment extends ReportAttachment {
+  // Short-lived signed link; null if it could not be created
+  url: string | null;
+}
+
+const BUCKET = "report-attachments";
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// Keep in step with the report-attachments bucket limits in the migration
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 10;
+export const attachmentTypes = ["image/jpeg", "image/png", "image/webp", "application/pdf"];
+
+export const isImageAttachment = (contentType: string) => contentType.startsWith("image/");
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns why a file cannot be attached, or null if it can
+export const validateAttachment = (file: File) => {
+  if (!attachmentTypes.includes(file.type)) return `${file.name} is not a JPEG, PNG, WebP or PDF file`;
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+};
+
+// Storage keys are restricted, so anything unusual in the name is replaced
+const storagePath = (reportId: string, file: File) =>
+  `${reportId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, "_")}`;
+
+export async function uploadReportAttachments(reportId: string, files: File[]) {
+  for (const file of files) {
+    const path = storagePath(reportId, file);
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, file, { contentType: file.type });
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from("report_attachments").insert({
+      report_id: reportId,
+      storage_path: path,
+      filename: file.name,
+      content_type: file.type,
+      size_bytes: file.size,
+    });
+    if (error) throw error;
+  }
+}
+
+export async function fetchReportAttachments(reportId: string): Promise<StoredAttachment[]> {
+  const { data, error } = await supabase
+    .from("report_attachments")
+    .select("*")
+    .eq("report_id", reportId)
+    .order("created_at");
+  if (error) throw error;
+  if (!data.length) return [];
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(data.map((attachment) => attachment.storage_path), SIGNED_URL_SECONDS);
+  if (signError) throw signError;
+
+  return data.map((attachment) => ({
+    ...attachment,
+    url: signed.find((link) => link.path === attachment.storage_path)?.signedUrl ?? null,
+  }));
+}
+
+export async function downloadAttachment(attachment: ReportAttachment) {
+  const { data, error } = await supabase.storage.from(BUCKET).download(attachment.storage_path);
+  if (error) throw error;
+  return data;
+}
+
+// Attachments as the report exports see them, whether still on the device or already stored
+export const fileToDocumentAttachment = (file: File): ReportDocumentAttachment => ({
+  filename: file.name,
+  contentType: file.type,
+  size: file.size,
+  load: async () => file,
+});
+
+export const storedToDocumentAttachment = (attachment: ReportAttachment): ReportDocumentAttachment => ({
+  filename: attachment.filename,
+  contentType: attachment.content_type,
+  size: attachment.size_bytes,
+  load: () => downloadAttachment(attachment),
+});
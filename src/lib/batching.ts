@@ -0,0 +1,21 @@
+// PostgREST caps each response (1000 rows by default), so long lists are read page by page.
+const PAGE_SIZE = 1000;
+
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Large imports are written in batches to keep each request a reasonable size.
+export async function inBatches<T>(rows: T[], write: (batch: T[]) => Promise<void>, batchSize = 500) {
+  for (let start = 0; start < rows.length; start += batchSize) {
+    await write(rows.slice(start, start + batchSize));
+  }
+}
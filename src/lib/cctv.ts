@@ -0,0 +1,112 @@
+import { addDays, addMinutes, differenceInCalendarDays, format, parse } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, type Enums, type Tables, type TablesInsert } from "@/integrations/supabase/types";
+import type { Garage } from "@/lib/garages";
+import type { FormData } from "@/lib/officials-report";
+
+export type CctvRequest = Tables<"cctv_requests">;
+export type CctvRequestStatus = Enums<"cctv_request_status">;
+export type CctvRequestInput = Pick<
+  TablesInsert<"cctv_requests">,
+  "fleet_number" | "window_start" | "window_end" | "cameras"
+>;
+
+export const cctvRequestStatuses = Constants.public.Enums.cctv_request_status;
+
+export const cctvRequestStatusLabels: Record<CctvRequestStatus, string> = {
+  requested: "Requested",
+  retrieved: "Retrieved",
+  not_available: "Not Available",
+};
+
+export const cctvRequestStatusStyles: Record<CctvRequestStatus, string> = {
+  requested: "border-transparent bg-notice-background text-notice-foreground hover:bg-notice-background",
+  retrieved: "border-transparent bg-primary text-primary-foreground hover:bg-primary",
+  not_available: "text-muted-foreground",
+};
+
+// Camera positions fitted across the fleet
+export const cctvCameras = [
+  "Cab",
+  "Forward facing",
+  "Entrance door",
+  "Exit door",
+  "Lower saloon",
+  "Upper saloon",
+  "Staircase",
+  "Rear",
+];
+
+// Minutes either side of the incident time suggested for the footage window
+const DEFAULT_WINDOW_MINUTES = 15;
+// Requests still open this close to the deadline are flagged
+const URGENT_DAYS = 3;
+
+// The suggested window around the incident time, as HH:mm strings
+export const defaultCctvWindow = (timeOfIncident: string) => {
+  const incident = parse(timeOfIncident, "HH:mm", new Date());
+  if (Number.isNaN(incident.getTime())) return { start: "", end: "" };
+  return {
+    start: format(addMinutes(incident, -DEFAULT_WINDOW_MINUTES), "HH:mm"),
+    end: format(addMinutes(incident, DEFAULT_WINDOW_MINUTES), "HH:mm"),
+  };
+};
+
+// Times on the incident date; a window ending at or before its start runs past midnight
+export const toCctvWindow = (date: Date, start: string, end: string) => {
+  const windowStart = parse(start, "HH:mm", date);
+  let windowEnd = parse(end, "HH:mm", date);
+  if (windowEnd <= windowStart) windowEnd = addDays(windowEnd, 1);
+  return { window_start: windowStart.toISOString(), window_end: windowEnd.toISOString() };
+};
+
+// The request sent with the report, if the controller asked for footage
+export const toCctvRequestRecord = (data: FormData): CctvRequestInput | null =>
+  data.cctvRequested && data.cctvWindowStart && data.cctvWindowEnd
+    ? {
+        fleet_number: data.fleetNumber,
+        ...toCctvWindow(data.dateOfIncident, data.cctvWindowStart, data.cctvWindowEnd),
+        cameras: data.cctvCameras ?? [],
+      }
+    : null;
+
+// Matches the column default, for garages not loaded yet
+const DEFAULT_RETENTION_DAYS = 14;
+
+export const cctvRetentionDays = (garages: Garage[], garageName: string) =>
+  garages.find((garage) => garage.name === garageName)?.cctv_retention_days ?? DEFAULT_RETENTION_DAYS;
+
+// Recorders overwrite footage this many days after it was recorded
+export const cctvDeadline = (windowStart: Date, retentionDays: number) => addDays(windowStart, retentionDays);
+
+export interface CctvCountdown {
+  label: string;
+  urgent: boolean;
+  overdue: boolean;
+}
+
+export const cctvCountdown = (deadline: Date, now = new Date()): CctvCountdown => {
+  const days = differenceInCalendarDays(deadline, now);
+  if (deadline <= now) {
+    const label = days === 0 ? "Overwritten today" : `Overwritten ${-days} day${days === -1 ? "" : "s"} ago`;
+    return { label, urgent: true, overdue: true };
+  }
+  const label = days === 0 ? "Overwritten later today" : `${days} day${days === 1 ? "" : "s"} left`;
+  return { label, urgent: days <= URGENT_DAYS, overdue: false };
+};
+
+export async function fetchCctvRequest(reportId: string) {
+  const { data, error } = await supabase.from("cctv_requests").select("*").eq("report_id", reportId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function createCctvRequest(reportId: string, input: CctvRequestInput) {
+  const { error } = await supabase.from("cctv_requests").insert({ ...input, report_id: reportId });
+  if (error) throw error;
+}
+
+export async function updateCctvRequest(id: string, status: CctvRequestStatus, notes: string | null) {
+  const { error } = await supabase.from("cctv_requests").update({ status, notes }).eq("id", id);
+  if (error) throw error;
+}
@@ -0,0 +1,67 @@
+// Minimal RFC 4180 parser: quoted fields may contain commas, doubled quotes and line breaks.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines, including the one left by a trailing newline
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+export type CsvRecord = Record<string, string>;
+
+// "Fleet Number" and "fleet_number" are the same column
+export const normalizeCsvHeader = (header: string) =>
+  header
+    .replace(/^\uFEFF/, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+
+// Rows keyed by their normalised header, with surrounding whitespace trimmed
+export function parseCsvRecords(text: string): CsvRecord[] {
+  const [header = [], ...rows] = parseCsv(text);
+  const keys = header.map(normalizeCsvHeader);
+  return rows.map((cells) => Object.fromEntries(keys.map((key, index) => [key, (cells[index] ?? "").trim()])));
+}
+
+export const parseCsvBoolean = (value: string | undefined, fallback: boolean) => {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return fallback;
+  return ["y", "yes", "true", "1"].includes(normalized);
+};
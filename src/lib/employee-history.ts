@@ -0,0 +1,70 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { ReportSubject } from "@/lib/report-subjects";
+
+export type EmployeeHistoryRow = Database["public"]["Functions"]["employee_report_history"]["Returns"][number];
+
+// The rolling windows history is counted over, in days. Keep in step with
+// employee_report_history and the repeat_alert_window_days check.
+export const historyWindows = [30, 90, 365] as const;
+export type HistoryWindow = (typeof historyWindows)[number];
+
+const windowColumns: Record<HistoryWindow, keyof EmployeeHistoryRow> = {
+  30: "last_30_days",
+  90: "last_90_days",
+  365: "last_365_days",
+};
+
+export const historyCount = (row: EmployeeHistoryRow, days: HistoryWindow) => row[windowColumns[days]] as number;
+
+export const historyWindowLabel = (days: number) => (days === 365 ? "12 months" : `${days} days`);
+
+export interface EmployeeHistoryOptions {
+  // Windows end on this date; defaults to today
+  asOf?: Date;
+  // Leaves the report being viewed out of its own history
+  excludeReportId?: string;
+}
+
+export async function fetchEmployeeHistory(employeeNumber: string, { asOf, excludeReportId }: EmployeeHistoryOptions = {}) {
+  const { data, error } = await supabase.rpc("employee_report_history", {
+    _employee_number: employeeNumber,
+    _as_of: asOf ? format(asOf, "yyyy-MM-dd") : undefined,
+    _exclude_report_id: excludeReportId,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export interface RepeatAlert {
+  subject: string;
+  count: number;
+  threshold: number;
+  windowDays: HistoryWindow;
+  // Whether the report being filled in or viewed is one of the count
+  includesCurrent: boolean;
+}
+
+// Subjects whose alert threshold the employee has reached. The report being filled in
+// or viewed counts towards its own subject, so the third late departure in 30 days
+// alerts on the third report rather than the fourth.
+export const repeatAlerts = (
+  history: EmployeeHistoryRow[],
+  subjects: ReportSubject[],
+  currentSubject?: string,
+): RepeatAlert[] =>
+  subjects.flatMap((subject) => {
+    const windowDays = subject.repeat_alert_window_days as HistoryWindow | null;
+    const threshold = subject.repeat_alert_threshold;
+    if (!windowDays || !threshold) return [];
+
+    const row = history.find((candidate) => candidate.subject_of_report === subject.name);
+    const includesCurrent = subject.name === currentSubject;
+    const count = (row ? historyCount(row, windowDays) : 0) + (includesCurrent ? 1 : 0);
+    return count >= threshold ? [{ subject: subject.name, count, threshold, windowDays, includesCurrent }] : [];
+  });
+
+export const describeRepeatAlert = ({ subject, count, threshold, windowDays, includesCurrent }: RepeatAlert) =>
+  `${count} "${subject}" reports in the last ${historyWindowLabel(windowDays)}` +
+  `${includesCurrent ? ", including this one" : ""} (alert at ${threshold}).`;
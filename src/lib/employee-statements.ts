@@ -0,0 +1,23 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export type EmployeeStatement = Tables<"employee_statements">;
+export type EmployeeStatementInput = Pick<TablesInsert<"employee_statements">, "statement" | "given_at">;
+
+export async function fetchEmployeeStatement(reportId: string) {
+  const { data, error } = await supabase
+    .from("employee_statements")
+    .select("*")
+    .eq("report_id", reportId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// A report has at most one statement, so recording it again replaces it
+export async function saveEmployeeStatement(reportId: string, input: EmployeeStatementInput) {
+  const { error } = await supabase
+    .from("employee_statements")
+    .upsert({ ...input, report_id: reportId }, { onConflict: "report_id" });
+  if (error) throw error;
+}
@@ -0,0 +1,55 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { fetchAllPages, inBatches } from "@/lib/batching";
+import type { CsvRecord } from "@/lib/csv";
+import { findGarageByCodeOrName, type Garage } from "@/lib/garages";
+
+export type Employee = Tables<"employees">;
+export type EmployeeInput = Pick<TablesInsert<"employees">, "employee_number" | "full_name" | "home_garage_id" | "grade">;
+
+export const employeeCsvColumns = ["employee_number", "name", "home_garage", "grade"];
+
+export async function fetchEmployees(): Promise<Employee[]> {
+  return fetchAllPages((from, to) =>
+    supabase.from("employees").select("*").order("employee_number").range(from, to)
+  );
+}
+
+export async function importEmployees(employees: EmployeeInput[]) {
+  await inBatches(employees, async (batch) => {
+    const { error } = await supabase.from("employees").upsert(batch, { onConflict: "employee_number" });
+    if (error) throw error;
+  });
+}
+
+export const parseEmployeeRecord = (record: CsvRecord, garages: Garage[]): EmployeeInput | string => {
+  const employeeNumber = record.employee_number;
+  const fullName = record.name || record.full_name;
+  if (!employeeNumber) return "employee_number is missing";
+  if (!fullName) return "name is missing";
+
+  let homeGarageId: string | null = null;
+  if (record.home_garage) {
+    const garage = findGarageByCodeOrName(garages, record.home_garage);
+    if (!garage) return `unknown garage "${record.home_garage}"`;
+    homeGarageId = garage.id;
+  }
+
+  return {
+    employee_number: employeeNumber,
+    full_name: fullName,
+    home_garage_id: homeGarageId,
+    grade: record.grade || null,
+  };
+};
+
+export const findEmployee = (employees: Employee[], employeeNumber: string) => {
+  const normalized = employeeNumber.trim();
+  return employees.find((employee) => employee.employee_number === normalized);
+};
+
+// Ignores case and spacing, so "jane  smith" matches "Jane Smith"
+export const namesMatch = (a: string, b: string) => {
+  const normalize = (name: string) => name.trim().toLowerCase().replace(/\s+/g, " ");
+  return normalize(a) === normalize(b);
+};
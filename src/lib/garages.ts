@@ -0,0 +1,29 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export type Garage = Tables<"garages">;
+export type GarageInput = Pick<
+  TablesInsert<"garages">,
+  "name" | "short_code" | "address" | "active" | "default_recipient_email" | "cctv_retention_days"
+>;
+
+export async function fetchGarages(): Promise<Garage[]> {
+  const { data, error } = await supabase.from("garages").select("*").order("name");
+  if (error) throw error;
+  return data;
+}
+
+export async function saveGarage(input: GarageInput, id?: string) {
+  const { error } = id
+    ? await supabase.from("garages").update(input).eq("id", id)
+    : await supabase.from("garages").insert(input);
+  if (error) throw error;
+}
+
+// Short code used in report filenames, e.g. "Fullwell" -> "FW"
+export const getGarageShortcut = (garage: string, garages: Garage[]) =>
+  garages.find((candidate) => candidate.name === garage)?.short_code ?? garage;
+
+// Imported files may refer to a garage by either its short code or its name
+export const findGarageByCodeOrName = (garages: Garage[], value: string) =>
+  garages.find((garage) => garage.short_code === value.toUpperCase() || garage.name === value);
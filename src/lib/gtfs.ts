@@ -0,0 +1,147 @@
+import { normalizeCsvHeader, parseCsv, type CsvRecord } from "@/lib/csv";
+import { normalizeRouteNumber } from "@/lib/routes";
+import { parseTimeOfDay, type Timetable, type TimetableService, type TimetableTrip } from "@/lib/timetable";
+import { openZipEntry, readZipEntries, type ZipEntry } from "@/lib/zip";
+
+// Streams a CSV file record by record. GTFS files can run to hundreds of megabytes
+// (stop_times.txt especially), so they are never held in memory whole. Fields in
+// GTFS do not contain line breaks, which lets each line be parsed on its own.
+async function forEachRecord(stream: ReadableStream<Uint8Array>, onRecord: (record: CsvRecord) => void) {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let header: string[] | null = null;
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const cells = line.includes('"') ? parseCsv(line)[0] ?? [] : line.replace(/\r$/, "").split(",");
+    if (!header) {
+      header = cells.map(normalizeCsvHeader);
+      return;
+    }
+    onRecord(Object.fromEntries(header.map((key, index) => [key, (cells[index] ?? "").trim()])));
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+}
+
+interface TripProgress {
+  trip: Omit<TimetableTrip, "start" | "end" | "origin" | "destination">;
+  firstSequence: number;
+  lastSequence: number;
+  start: number;
+  end: number;
+  originStop: string;
+  destinationStop: string;
+  headsign: string;
+}
+
+const dayColumns = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+// Reads a GTFS zip into the trips and service calendars the report form uses. When
+// route numbers are given, only those routes are kept to keep the result small.
+export async function importGtfs(zip: File, routeNumbers: string[] = []): Promise<Timetable> {
+  const entries = await readZipEntries(zip);
+  const entryFor = (name: string) => entries.find((entry) => entry.name.split("/").pop() === name);
+  const read = async (name: string, onRecord: (record: CsvRecord) => void, required = true) => {
+    const entry: ZipEntry | undefined = entryFor(name);
+    if (!entry) {
+      if (required) throw new Error(`The GTFS file has no ${name}`);
+      return;
+    }
+    await forEachRecord(await openZipEntry(zip, entry), onRecord);
+  };
+
+  const wanted = new Set(routeNumbers.map(normalizeRouteNumber));
+  const routes = new Map<string, string>();
+  await read("routes.txt", (record) => {
+    const routeNumber = normalizeRouteNumber(record.route_short_name || record.route_id);
+    if (wanted.size === 0 || wanted.has(routeNumber)) routes.set(record.route_id, routeNumber);
+  });
+
+  const progress = new Map<string, TripProgress>();
+  await read("trips.txt", (record) => {
+    const routeNumber = routes.get(record.route_id);
+    if (!routeNumber) return;
+    progress.set(record.trip_id, {
+      trip: {
+        routeNumber,
+        serviceId: record.service_id,
+        tripNumber: record.trip_short_name || record.trip_id,
+        runningNumber: record.block_id,
+        dutyNumber: record.duty_id || record.duty || undefined,
+      },
+      firstSequence: Infinity,
+      lastSequence: -Infinity,
+      start: 0,
+      end: 0,
+      originStop: "",
+      destinationStop: "",
+      headsign: record.trip_headsign,
+    });
+  });
+
+  const services: Record<string, TimetableService> = {};
+  const serviceFor = (serviceId: string) =>
+    (services[serviceId] ??= { days: dayColumns.map(() => false), startDate: "", endDate: "", added: [], removed: [] });
+  await read(
+    "calendar.txt",
+    (record) => {
+      const service = serviceFor(record.service_id);
+      service.days = dayColumns.map((day) => record[day] === "1");
+      service.startDate = record.start_date;
+      service.endDate = record.end_date;
+    },
+    false
+  );
+  await read(
+    "calendar_dates.txt",
+    (record) => {
+      const service = serviceFor(record.service_id);
+      (record.exception_type === "1" ? service.added : service.removed).push(record.date);
+    },
+    false
+  );
+
+  await read("stop_times.txt", (record) => {
+    const trip = progress.get(record.trip_id);
+    if (!trip) return;
+    const sequence = Number(record.stop_sequence);
+    if (sequence < trip.firstSequence) {
+      trip.firstSequence = sequence;
+      trip.start = parseTimeOfDay(record.departure_time || record.arrival_time) ?? trip.start;
+      trip.originStop = record.stop_id;
+    }
+    if (sequence > trip.lastSequence) {
+      trip.lastSequence = sequence;
+      trip.end = parseTimeOfDay(record.arrival_time || record.departure_time) ?? trip.end;
+      trip.destinationStop = record.stop_id;
+    }
+  });
+
+  const terminusStops = new Set([...progress.values()].flatMap((trip) => [trip.originStop, trip.destinationStop]));
+  const stopNames = new Map<string, string>();
+  await read("stops.txt", (record) => {
+    if (terminusStops.has(record.stop_id)) stopNames.set(record.stop_id, record.stop_name);
+  });
+
+  const trips = [...progress.values()]
+    .filter((trip) => trip.lastSequence >= trip.firstSequence)
+    .map((trip) => ({
+      ...trip.trip,
+      start: trip.start,
+      end: trip.end,
+      origin: stopNames.get(trip.originStop) ?? trip.originStop,
+      destination: trip.headsign || (stopNames.get(trip.destinationStop) ?? trip.destinationStop),
+    }));
+  if (trips.length === 0) throw new Error("No journeys were found for the routes in the route list");
+
+  return { name: zip.name, importedAt: new Date().toISOString(), trips, services };
+}
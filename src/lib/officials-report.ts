@@ -0,0 +1,176 @@
+import * as z from "zod";
+import { format } from "date-fns";
+import { formatWitnessField, witnessFields, witnessSchema } from "@/lib/witnesses";
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const formSchema = z.object({
+  employeeName: z.string().min(1, "Employee name is required"),
+  employeeNumber: z.string().min(1, "Employee number is required"),
+  garage: z.string().min(1, "Garage is required"),
+  route: z.string().min(1, "Route is required"),
+  dateOfReport: z.date({
+    required_error: "Date of report is required",
+  }),
+  runningNumber: z.string().min(1, "Running number is required"),
+  dateOfIncident: z.date({
+    required_error: "Date of incident is required",
+  }),
+  dutyNumber: z.string().min(1, "Duty number is required"),
+  timeOfIncident: z.string().min(1, "Time of incident is required"),
+  tripNumber: z.string().min(1, "Trip number is required"),
+  location: z.string().min(1, "Location is required"),
+  // Where the display string above came from: a stop in the stop list and/or the device's position
+  locationStopCode: z.string().optional(),
+  locationLatitude: z.number().optional(),
+  locationLongitude: z.number().optional(),
+  fleetNumber: z.string().min(1, "Fleet number is required"),
+  // Filled from the fleet register, not typed
+  registration: z.string().optional(),
+  travellingFrom: z.string().min(1, "Travelling from is required"),
+  destination: z.string().min(1, "Destination is required"),
+  subjectOfReport: z.string().min(1, "Subject of report is required"),
+  detailsOfIncident: z.string().min(10, "Details must be at least 10 characters"),
+  controllerName: z.string().min(1, "Controller's name is required"),
+  extensionNumber: z.string().min(1, "Extension number is required"),
+  // Optional request to preserve the vehicle's CCTV, stored with the report
+  cctvRequested: z.boolean().optional(),
+  cctvWindowStart: z.string().optional(),
+  cctvWindowEnd: z.string().optional(),
+  cctvCameras: z.array(z.string()).optional(),
+  witnesses: z.array(witnessSchema).optional(),
+}).superRefine((data, context) => {
+  if (!data.cctvRequested) return;
+  if (!timePattern.test(data.cctvWindowStart ?? "")) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["cctvWindowStart"], message: "Start time is required" });
+  }
+  if (!timePattern.test(data.cctvWindowEnd ?? "")) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["cctvWindowEnd"], message: "End time is required" });
+  }
+  if (!data.cctvCameras?.length) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["cctvCameras"], message: "Choose at least one camera" });
+  }
+});
+
+export type FormData = z.infer<typeof formSchema>;
+
+export interface ReportField {
+  name: keyof FormData;
+  label: string;
+  multiline?: boolean;
+}
+
+export interface ReportSection {
+  title: string;
+  fields: ReportField[];
+  // Witnesses are listed after this section
+  witnessesFollow?: boolean;
+}
+
+// Mirrors the cards on the form so every output groups fields the same way.
+export const reportSections: ReportSection[] = [
+  {
+    title: "Employee Information",
+    fields: [
+      { name: "employeeName", label: "Employee Name" },
+      { name: "employeeNumber", label: "Employee Number" },
+      { name: "garage", label: "Garage" },
+      { name: "route", label: "Route" },
+    ],
+  },
+  {
+    title: "Report Details",
+    fields: [
+      { name: "dateOfReport", label: "Date of Report" },
+      { name: "runningNumber", label: "Running Number" },
+      { name: "dateOfIncident", label: "Date of Incident" },
+      { name: "dutyNumber", label: "Duty Number" },
+      { name: "timeOfIncident", label: "Time of Incident" },
+      { name: "tripNumber", label: "Trip Number" },
+    ],
+  },
+  {
+    title: "Location Information",
+    fields: [
+      { name: "location", label: "Location" },
+      { name: "locationStopCode", label: "Stop Code" },
+      { name: "locationLatitude", label: "Latitude" },
+      { name: "locationLongitude", label: "Longitude" },
+      { name: "fleetNumber", label: "Fleet Number" },
+      { name: "registration", label: "Registration" },
+      { name: "travellingFrom", label: "Travelling From" },
+      { name: "destination", label: "Destination" },
+    ],
+  },
+  {
+    title: "Incident Details",
+    fields: [
+      { name: "subjectOfReport", label: "Subject of Report" },
+      { name: "detailsOfIncident", label: "Details of Incident", multiline: true },
+    ],
+    witnessesFollow: true,
+  },
+  {
+    title: "Controller Information",
+    fields: [
+      { name: "controllerName", label: "Controller's Name" },
+      { name: "extensionNumber", label: "Extension Number" },
+    ],
+  },
+];
+
+export const formatReportField = (data: Partial<FormData>, name: keyof FormData) => {
+  const value = data[name];
+  if (value instanceof Date) return format(value, "PPP");
+  if (typeof value === "number") return String(value);
+  return value ? String(value) : "N/A";
+};
+
+// A labelled value as every output format shows it
+export interface ReportEntry {
+  label: string;
+  value: string;
+  multiline?: boolean;
+}
+
+export interface ReportDocumentSection {
+  title: string;
+  entries: ReportEntry[];
+}
+
+// The report's sections with their values filled in, including one per witness.
+export const reportDocumentSections = (data: Partial<FormData>): ReportDocumentSection[] => {
+  const witnessSections = (data.witnesses ?? []).map((witness, index) => ({
+    title: `Witness ${index + 1}`,
+    entries: witnessFields.map((field) => ({
+      label: field.label,
+      value: formatWitnessField(witness, field.name),
+      multiline: field.multiline,
+    })),
+  }));
+
+  return reportSections.flatMap((section) => {
+    const filled = {
+      title: section.title,
+      entries: section.fields.map((field) => ({
+        label: field.label,
+        value: formatReportField(data, field.name),
+        multiline: field.multiline,
+      })),
+    };
+    return section.witnessesFollow ? [filled, ...witnessSections] : [filled];
+  });
+};
+
+export const LIMITED_SHARING_NOTICE =
+  "LIMITED SHARING - This report contains sensitive information and should only be shared with authorized personnel.";
+
+export const FIRST_BUS_LOGO_URL = `${import.meta.env.BASE_URL}lovable-uploads/4bb6ce72-fbf6-4c79-84b1-875b11f9f3f5.png`;
+
+// Filename format: Date-Garage-Officials Report-EmployeeNumber.ext
+export const getReportFilename = (data: Partial<FormData>, extension: string, garageCode?: string) => {
+  const currentDate = format(new Date(), "yyyyMMdd");
+  const garageShortcut = garageCode || data.garage || '';
+  const employeeNumber = data.employeeNumber || 'NoEmpNum';
+  return `${currentDate}-${garageShortcut}-Officials Report-${employeeNumber}.${extension}`;
+};
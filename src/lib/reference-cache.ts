@@ -0,0 +1,32 @@
+// The last fetched reference lists are kept so the report form still works offline
+const CACHE_PREFIX = "officials-report:reference:";
+
+// Lists cached before they moved under the prefix
+const LEGACY_KEYS = ["garages", "report-subjects", "routes", "vehicles"].map((name) => `officials-report:${name}`);
+
+export const readReferenceCache = <T,>(name: string): T | undefined => {
+  try {
+    const cached = localStorage.getItem(CACHE_PREFIX + name);
+    return cached ? (JSON.parse(cached) as T) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// The fetched list is returned even when storage is full, so only the offline copy is lost
+export const writeReferenceCache = <T,>(name: string, value: T) => {
+  try {
+    localStorage.setItem(CACHE_PREFIX + name, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not cache ${name} for offline use:`, error);
+    localStorage.removeItem(CACHE_PREFIX + name);
+  }
+  return value;
+};
+
+// Some lists hold personal data, so they do not outlive the session
+export const clearReferenceCache = () => {
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(CACHE_PREFIX) || LEGACY_KEYS.includes(key))
+    .forEach((key) => localStorage.removeItem(key));
+};
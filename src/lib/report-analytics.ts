@@ -0,0 +1,137 @@
+import {
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  format,
+  isValid,
+  parseISO,
+  startOfWeek,
+  subDays,
+} from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchAllPages } from "@/lib/batching";
+import type { ReportRecord } from "@/lib/reports";
+import type { ReportSubject, ReportSubjectCategory } from "@/lib/report-subjects";
+
+export interface DashboardFilters {
+  from: string;
+  to: string;
+  garage: string;
+}
+
+// Four weeks up to today by default, the span of the hub leaders' weekly review
+export const defaultDashboardFilters = (days = 28): DashboardFilters => ({
+  from: format(subDays(new Date(), days - 1), "yyyy-MM-dd"),
+  to: format(new Date(), "yyyy-MM-dd"),
+  garage: "",
+});
+
+const validDate = (value: string | null) => (value && isValid(parseISO(value)) ? value : null);
+
+export const parseDashboardFilters = (params: URLSearchParams, defaults = defaultDashboardFilters()): DashboardFilters => ({
+  from: validDate(params.get("from")) ?? defaults.from,
+  to: validDate(params.get("to")) ?? defaults.to,
+  garage: params.get("garage") ?? "",
+});
+
+export const toDashboardSearchParams = (filters: DashboardFilters) => {
+  const params = new URLSearchParams();
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.garage) params.set("garage", filters.garage);
+  return params;
+};
+
+export const analyticsColumns =
+  "id, reference, garage, route, subject_of_report, date_of_incident, time_of_incident, controller_name, status";
+
+export type AnalyticsReport = Pick<
+  ReportRecord,
+  | "id"
+  | "reference"
+  | "garage"
+  | "route"
+  | "subject_of_report"
+  | "date_of_incident"
+  | "time_of_incident"
+  | "controller_name"
+  | "status"
+>;
+
+// Every report in the range, read page by page; row level security limits the rows
+// to those the user may see.
+export async function fetchAnalyticsReports(filters: DashboardFilters) {
+  return fetchAllPages<AnalyticsReport>((from, to) => {
+    let query = supabase
+      .from("officials_reports")
+      .select(analyticsColumns)
+      .gte("date_of_incident", filters.from)
+      .lte("date_of_incident", filters.to)
+      .order("date_of_incident")
+      .order("id")
+      .range(from, to);
+    if (filters.garage) query = query.eq("garage", filters.garage);
+    return query;
+  });
+}
+
+export interface CountRow {
+  name: string;
+  count: number;
+}
+
+// Counts per value, largest first. Past the limit the rest are folded into "Other".
+export const countBy = (reports: AnalyticsReport[], key: (report: AnalyticsReport) => string, limit?: number) => {
+  const counts = new Map<string, number>();
+  reports.forEach((report) => {
+    const name = key(report).trim() || "Unknown";
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+
+  const rows: CountRow[] = [...counts]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  if (!limit || rows.length <= limit) return rows;
+
+  const other = rows.slice(limit).reduce((total, row) => total + row.count, 0);
+  return [...rows.slice(0, limit), { name: "Other", count: other }];
+};
+
+export const incidentHour = (report: Pick<AnalyticsReport, "time_of_incident">) =>
+  Number(report.time_of_incident.slice(0, 2));
+
+export const hourLabel = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+export const reportsByHour = (reports: AnalyticsReport[]) => {
+  const counts = Array.from({ length: 24 }, () => 0);
+  reports.forEach((report) => counts[incidentHour(report)]++);
+  return counts.map((count, hour) => ({ name: hourLabel(hour), count }));
+};
+
+export type TimelineRow = { period: string } & Partial<Record<ReportSubjectCategory | "uncategorised", number>>;
+
+// Reports per day, or per week (starting Monday) for ranges longer than two months,
+// split by the category of their subject.
+export const reportsOverTime = (reports: AnalyticsReport[], filters: DashboardFilters, subjects: ReportSubject[]) => {
+  const start = parseISO(filters.from);
+  const end = parseISO(filters.to);
+  if (end < start) return { weekly: false, rows: [] };
+
+  const weekly = differenceInCalendarDays(end, start) > 62;
+  const periodOf = (date: Date) => format(weekly ? startOfWeek(date, { weekStartsOn: 1 }) : date, "yyyy-MM-dd");
+  const periods = weekly
+    ? eachWeekOfInterval({ start, end }, { weekStartsOn: 1 })
+    : eachDayOfInterval({ start, end });
+
+  const rows = new Map<string, TimelineRow>(periods.map((date) => [periodOf(date), { period: periodOf(date) }]));
+  const categories = new Map(subjects.map((subject) => [subject.name, subject.category]));
+
+  reports.forEach((report) => {
+    const row = rows.get(periodOf(parseISO(report.date_of_incident)));
+    if (!row) return;
+    const category = categories.get(report.subject_of_report) ?? "uncategorised";
+    row[category] = (row[category] ?? 0) + 1;
+  });
+
+  return { weekly, rows: [...rows.values()] };
+};
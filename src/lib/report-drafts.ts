@@ -0,0 +1,112 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { FormData } from "@/lib/officials-report";
+
+export type DraftValues = Partial<FormData>;
+
+export interface ReportDraft {
+  id: string;
+  name: string;
+  values: DraftValues;
+  updatedAt: string;
+}
+
+// Each user has their own drafts on a shared device
+const storageKey = (userId: string) => `officials-report:drafts:${userId}`;
+
+// Drafts were once kept under one key for everyone who signed in on the device
+const SHARED_STORAGE_KEY = "officials-report:drafts";
+
+const dateFields = new Set<keyof FormData>(["dateOfReport", "dateOfIncident"]);
+
+// JSON.stringify turns Dates into ISO strings; turn them back into Dates for the date pickers
+const reviveDates = (key: string, value: unknown) =>
+  dateFields.has(key as keyof FormData) && typeof value === "string" ? new Date(value) : value;
+
+export const parseDraftValues = (json: string): DraftValues => JSON.parse(json, reviveDates);
+
+export const serializeDraftValues = (values: DraftValues) => JSON.stringify(values);
+
+// Controller details are prefilled from the profile, so they alone do not make a draft
+const prefilledFields = new Set<keyof FormData>(["controllerName", "extensionNumber"]);
+
+export const hasDraftContent = (values: DraftValues) =>
+  Object.entries(values).some(
+    ([key, value]) =>
+      !prefilledFields.has(key as keyof FormData) &&
+      (Array.isArray(value) ? value.length > 0 : value instanceof Date || !!value)
+  );
+
+export const defaultDraftName = (values: DraftValues) =>
+  [values.subjectOfReport || "Report", values.employeeName || values.employeeNumber, format(new Date(), "dd MMM HH:mm")]
+    .filter(Boolean)
+    .join(" – ");
+
+export const loadDrafts = (userId: string): ReportDraft[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return [];
+    const drafts = JSON.parse(stored) as (Omit<ReportDraft, "values"> & { values: string })[];
+    return drafts
+      .map((draft) => ({ ...draft, values: parseDraftValues(draft.values) }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.error("Could not read saved drafts:", error);
+    return [];
+  }
+};
+
+export const storeDrafts = (userId: string, drafts: ReportDraft[]) => {
+  localStorage.setItem(
+    storageKey(userId),
+    JSON.stringify(drafts.map((draft) => ({ ...draft, values: serializeDraftValues(draft.values) })))
+  );
+};
+
+// Called on sign out; the synced copies in Supabase are kept
+export const clearDrafts = (userId: string) => {
+  localStorage.removeItem(storageKey(userId));
+  localStorage.removeItem(SHARED_STORAGE_KEY);
+};
+
+// Signed-in users also keep their drafts in Supabase so they follow them between devices.
+export async function fetchRemoteDrafts(): Promise<ReportDraft[]> {
+  const { data, error } = await supabase
+    .from("report_drafts")
+    .select("id, name, data, updated_at")
+    .order("updated_at", { ascending: false });
+  if (error) throw error;
+
+  return data.map((draft) => ({
+    id: draft.id,
+    name: draft.name,
+    values: parseDraftValues(JSON.stringify(draft.data)),
+    updatedAt: draft.updated_at,
+  }));
+}
+
+export async function upsertRemoteDraft(draft: ReportDraft) {
+  const { error } = await supabase.from("report_drafts").upsert({
+    id: draft.id,
+    name: draft.name,
+    data: JSON.parse(serializeDraftValues(draft.values)) as Json,
+    updated_at: draft.updatedAt,
+  });
+  if (error) throw error;
+}
+
+export async function deleteRemoteDraft(id: string) {
+  const { error } = await supabase.from("report_drafts").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// Keeps the most recently updated copy of each draft
+export const mergeDrafts = (local: ReportDraft[], remote: ReportDraft[]) => {
+  const merged = new Map(local.map((draft) => [draft.id, draft]));
+  remote.forEach((draft) => {
+    const existing = merged.get(draft.id);
+    if (!existing || existing.updatedAt < draft.updatedAt) merged.set(draft.id, draft);
+  });
+  return [...merged.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
@@ -0,0 +1,68 @@
+export const REPORTS_PAGE_SIZE = 20;
+
+export const reportSortColumns = {
+  created_at: "Submitted",
+  date_of_incident: "Date of Incident",
+  garage: "Garage",
+  route: "Route",
+  employee_number: "Employee",
+  subject_of_report: "Subject",
+  severity: "Severity",
+  status: "Status",
+} as const;
+
+export type ReportSortColumn = keyof typeof reportSortColumns;
+
+export interface ReportFilters {
+  garage: string;
+  route: string;
+  subject: string;
+  from: string;
+  to: string;
+  employeeNumber: string;
+  status: string;
+  sort: ReportSortColumn;
+  ascending: boolean;
+  page: number;
+}
+
+export const defaultReportFilters: ReportFilters = {
+  garage: "",
+  route: "",
+  subject: "",
+  from: "",
+  to: "",
+  employeeNumber: "",
+  status: "",
+  sort: "created_at",
+  ascending: false,
+  page: 1,
+};
+
+const textFilters = ["garage", "route", "subject", "from", "to", "employeeNumber", "status"] as const;
+
+// Filters live in the URL so a filtered list can be bookmarked or shared.
+export const parseReportFilters = (params: URLSearchParams): ReportFilters => {
+  const filters: ReportFilters = { ...defaultReportFilters };
+  textFilters.forEach((key) => {
+    filters[key] = params.get(key) ?? "";
+  });
+
+  const sort = params.get("sort");
+  if (sort && sort in reportSortColumns) filters.sort = sort as ReportSortColumn;
+  filters.ascending = params.get("order") === "asc";
+  filters.page = Math.max(1, Number(params.get("page")) || 1);
+
+  return filters;
+};
+
+export const toReportSearchParams = (filters: ReportFilters) => {
+  const params = new URLSearchParams();
+  textFilters.forEach((key) => {
+    if (filters[key]) params.set(key, filters[key]);
+  });
+  if (filters.sort !== defaultReportFilters.sort) params.set("sort", filters.sort);
+  if (filters.ascending) params.set("order", "asc");
+  if (filters.page > 1) params.set("page", String(filters.page));
+  return params;
+};
@@ -0,0 +1,140 @@
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import {
+  LIMITED_SHARING_NOTICE,
+  reportDocumentSections,
+  type ReportDocumentSection,
+} from "@/lib/officials-report";
+import { formatFileSize } from "@/lib/attachments";
+import type { ReportDocument, ReportDocumentAttachment, ReportRenderer } from "./types";
+
+// Matches the --primary, --form-section and --notice-* colours in index.css
+const PRIMARY = "5E11A6";
+const SECTION_BACKGROUND = "FAF6FE";
+const NOTICE_BACKGROUND = "FFF7E6";
+const NOTICE_FOREGROUND = "806000";
+const MUTED = "64748B";
+
+const noticeParagraph = () =>
+  new Paragraph({
+    alignment: AlignmentType.CENTER,
+    shading: { type: ShadingType.CLEAR, fill: NOTICE_BACKGROUND, color: "auto" },
+    children: [new TextRun({ text: LIMITED_SHARING_NOTICE, bold: true, size: 16, color: NOTICE_FOREGROUND })],
+  });
+
+// Multiline values keep their line breaks in Word
+const valueRuns = (value: string) =>
+  value.split("\n").map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : 0 }));
+
+const sectionTable = (section: ReportDocumentSection) =>
+  new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        children: [
+          new TableCell({
+            columnSpan: 2,
+            shading: { type: ShadingType.CLEAR, fill: SECTION_BACKGROUND, color: "auto" },
+            children: [new Paragraph({ children: [new TextRun({ text: section.title, bold: true, size: 24 })] })],
+          }),
+        ],
+      }),
+      ...section.entries.map((entry) =>
+        new TableRow({
+          children: [
+            new TableCell({
+              width: { size: 30, type: WidthType.PERCENTAGE },
+              children: [new Paragraph({ children: [new TextRun({ text: entry.label, bold: true, color: MUTED })] })],
+            }),
+            new TableCell({
+              width: { size: 70, type: WidthType.PERCENTAGE },
+              children: [new Paragraph({ children: valueRuns(entry.value) })],
+            }),
+          ],
+        })
+      ),
+    ],
+  });
+
+const attachmentsTable = (attachments: ReportDocumentAttachment[]) =>
+  new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        children: [
+          new TableCell({
+            shading: { type: ShadingType.CLEAR, fill: SECTION_BACKGROUND, color: "auto" },
+            children: [new Paragraph({ children: [new TextRun({ text: "Attachments", bold: true, size: 24 })] })],
+          }),
+        ],
+      }),
+      ...attachments.map((attachment) =>
+        new TableRow({
+          children: [
+            new TableCell({
+              children: [
+                new Paragraph({ text: `${attachment.filename} (${formatFileSize(attachment.size)})` }),
+              ],
+            }),
+          ],
+        })
+      ),
+    ],
+  });
+
+export async function createReportDocx({ data, reference, attachments = [] }: ReportDocument): Promise<Blob> {
+  const doc = new Document({
+    creator: "Officials Report Form",
+    title: "Officials Report",
+    sections: [
+      {
+        headers: { default: new Header({ children: [noticeParagraph()] }) },
+        footers: { default: new Footer({ children: [noticeParagraph()] }) },
+        children: [
+          new Paragraph({
+            heading: HeadingLevel.TITLE,
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ text: "Officials Report", bold: true, color: PRIMARY })],
+          }),
+          ...(reference
+            ? [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: `Reference ${reference}`, color: MUTED })] })]
+            : []),
+          ...reportDocumentSections(data).flatMap((section) => [sectionTable(section), new Paragraph({})]),
+          ...(attachments.length ? [attachmentsTable(attachments), new Paragraph({})] : []),
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: `This report was generated via the Officials Report Form on ${new Date().toLocaleString()}`,
+                italics: true,
+                size: 16,
+                color: MUTED,
+              }),
+            ],
+          }),
+        ],
+      },
+    ],
+  });
+
+  return Packer.toBlob(doc);
+}
+
+export const docxRenderer: ReportRenderer = {
+  label: "Word (.docx)",
+  extension: "docx",
+  mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  render: createReportDocx,
+};
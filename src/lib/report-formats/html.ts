@@ -0,0 +1,80 @@
+import {
+  FIRST_BUS_LOGO_URL,
+  LIMITED_SHARING_NOTICE,
+  reportDocumentSections,
+} from "@/lib/officials-report";
+import { formatFileSize } from "@/lib/attachments";
+import type { ReportDocument, ReportRenderer } from "./types";
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const styles = `
+  body { font-family: Arial, Helvetica, sans-serif; color: #2b2f3b; max-width: 800px; margin: 0 auto; padding: 24px; }
+  header { text-align: center; margin-bottom: 24px; }
+  header img { height: 64px; }
+  h1 { color: #5e11a6; margin: 8px 0; }
+  section { border: 1px solid #e2e8f0; border-radius: 8px; margin-bottom: 20px; overflow: hidden; }
+  h2 { background: #faf6fe; margin: 0; padding: 12px 16px; font-size: 18px; }
+  dl { display: grid; grid-template-columns: 1fr 1fr; gap: 12px 24px; margin: 0; padding: 16px; }
+  dt { font-size: 11px; font-weight: bold; text-transform: uppercase; color: #64748b; }
+  dd { margin: 2px 0 0; white-space: pre-wrap; }
+  ul { margin: 0; padding: 16px 16px 16px 36px; }
+  .full { grid-column: 1 / -1; }
+  .notice { background: #fff7e6; border: 1px solid #806000; color: #806000; border-radius: 8px; padding: 12px; text-align: center; font-weight: bold; }
+  footer { color: #64748b; font-size: 12px; margin-top: 16px; }
+`;
+
+export const createReportHtml = ({ data, reference, attachments = [] }: ReportDocument) => {
+  const title = `Officials Report${reference ? ` ${reference}` : ""}`;
+  const sections = reportDocumentSections(data)
+    .map((section) => {
+      const fields = section.entries
+        .map((entry) => `<div${entry.multiline ? ' class="full"' : ""}>
+          <dt>${escapeHtml(entry.label)}</dt>
+          <dd>${escapeHtml(entry.value)}</dd>
+        </div>`)
+        .join("");
+      return `<section><h2>${escapeHtml(section.title)}</h2><dl>${fields}</dl></section>`;
+    })
+    .join("\n");
+
+  // Listed by name only; the files themselves stay in the report system
+  const attachmentList = attachments.length
+    ? `<section><h2>Attachments</h2><ul>${attachments
+        .map((attachment) => `<li>${escapeHtml(attachment.filename)} (${formatFileSize(attachment.size)})</li>`)
+        .join("")}</ul></section>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>${styles}</style>
+</head>
+<body>
+<p class="notice">${escapeHtml(LIMITED_SHARING_NOTICE)}</p>
+<header>
+<img src="${new URL(FIRST_BUS_LOGO_URL, window.location.origin).href}" alt="First Bus Logo" />
+<h1>${escapeHtml(title)}</h1>
+</header>
+${sections}
+${attachmentList}
+<p class="notice">${escapeHtml(LIMITED_SHARING_NOTICE)}</p>
+<footer>This report was generated via the Officials Report Form on ${escapeHtml(new Date().toLocaleString())}</footer>
+</body>
+</html>`;
+};
+
+export const htmlRenderer: ReportRenderer = {
+  label: "Web page (.html)",
+  extension: "html",
+  mimeType: "text/html",
+  render: async (report) => new Blob([createReportHtml(report)], { type: "text/html" }),
+};
@@ -0,0 +1,50 @@
+import { getReportFilename } from "@/lib/officials-report";
+import { htmlRenderer } from "./html";
+import { jsonRenderer } from "./json";
+import { txtRenderer } from "./txt";
+import type { ReportDocument, ReportRenderer } from "./types";
+
+export type { ReportDocument, ReportDocumentAttachment, ReportDocumentStatement, ReportRenderer } from "./types";
+
+// PDF and DOCX pull in large libraries, so they are only loaded when used.
+const lazyRenderer = (
+  renderer: Omit<ReportRenderer, "render">,
+  load: () => Promise<ReportRenderer>,
+): ReportRenderer => ({
+  ...renderer,
+  render: async (report) => (await load()).render(report),
+});
+
+// Add new output formats here; the form's format picker lists every entry.
+export const reportFormats = {
+  txt: txtRenderer,
+  pdf: lazyRenderer(
+    { label: "PDF (.pdf)", extension: "pdf", mimeType: "application/pdf" },
+    async () => (await import("./pdf")).pdfRenderer,
+  ),
+  docx: lazyRenderer(
+    {
+      label: "Word (.docx)",
+      extension: "docx",
+      mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    },
+    async () => (await import("./docx")).docxRenderer,
+  ),
+  json: jsonRenderer,
+  html: htmlRenderer,
+} satisfies Record<string, ReportRenderer>;
+
+export type ReportFormat = keyof typeof reportFormats;
+
+export const reportFormatOptions = Object.entries(reportFormats).map(([value, renderer]) => ({
+  value: value as ReportFormat,
+  label: renderer.label,
+}));
+
+export async function renderReport(format: ReportFormat, report: ReportDocument) {
+  const renderer: ReportRenderer = reportFormats[format];
+  return {
+    blob: await renderer.render(report),
+    filename: getReportFilename(report.data, renderer.extension, report.garageCode),
+  };
+}
@@ -0,0 +1,22 @@
+import { format } from "date-fns";
+import type { ReportDocument, ReportRenderer } from "./types";
+
+// Machine-readable export for the depot system. Dates are ISO calendar dates.
+export const createReportJson = ({ data, reference, attachments = [] }: ReportDocument) => ({
+  reference: reference ?? null,
+  generatedAt: new Date().toISOString(),
+  report: {
+    ...data,
+    dateOfReport: data.dateOfReport ? format(data.dateOfReport, "yyyy-MM-dd") : null,
+    dateOfIncident: data.dateOfIncident ? format(data.dateOfIncident, "yyyy-MM-dd") : null,
+  },
+  attachments: attachments.map(({ filename, contentType, size }) => ({ filename, contentType, size })),
+});
+
+export const jsonRenderer: ReportRenderer = {
+  label: "JSON (.json)",
+  extension: "json",
+  mimeType: "application/json",
+  render: async (report) =>
+    new Blob([JSON.stringify(createReportJson(report), null, 2)], { type: "application/json" }),
+};
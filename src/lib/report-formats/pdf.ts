@@ -0,0 +1,304 @@
+import { jsPDF } from "jspdf";
+import { format } from "date-fns";
+import {
+  FIRST_BUS_LOGO_URL,
+  LIMITED_SHARING_NOTICE,
+  reportDocumentSections,
+  type ReportEntry,
+} from "@/lib/officials-report";
+import { formatFileSize } from "@/lib/attachments";
+import type { ReportDocument, ReportDocumentAttachment, ReportRenderer } from "./types";
+
+type RGB = [number, number, number];
+
+// A4 portrait, measured in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const COLUMN_GAP = 8;
+const COLUMN_WIDTH = (CONTENT_WIDTH - COLUMN_GAP) / 2;
+const BANNER_HEIGHT = 12;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - BANNER_HEIGHT - 4;
+const LINE_HEIGHT = 4.6;
+const MAX_IMAGE_HEIGHT = 110;
+
+// Attachment types jsPDF can draw; anything else is only listed
+const imageFormats: Record<string, string> = {
+  "image/jpeg": "JPEG",
+  "image/png": "PNG",
+  "image/webp": "WEBP",
+};
+
+// Matches the --primary, --form-section and --notice-* colours in index.css
+const PRIMARY: RGB = [94, 17, 166];
+const SECTION_BACKGROUND: RGB = [250, 246, 254];
+const NOTICE_BACKGROUND: RGB = [255, 247, 230];
+const NOTICE_FOREGROUND: RGB = [128, 96, 0];
+const TEXT: RGB = [43, 47, 59];
+const MUTED: RGB = [100, 116, 139];
+const BORDER: RGB = [226, 232, 240];
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const loadLogo = async () => {
+  try {
+    const response = await fetch(FIRST_BUS_LOGO_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await blobToDataUrl(await response.blob());
+  } catch (error) {
+    // The report is still valid without the logo
+    console.warn("Could not load First Bus logo for PDF:", error);
+    return null;
+  }
+};
+
+class ReportPdfWriter {
+  readonly doc = new jsPDF({ unit: "mm", format: "a4" });
+  private y = MARGIN;
+
+  ensureSpace(height: number) {
+    if (this.y + height > CONTENT_BOTTOM) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  header(logo: string | null, reference?: string) {
+    if (logo) {
+      const { width, height } = this.doc.getImageProperties(logo);
+      const logoHeight = 16;
+      const logoWidth = (width / height) * logoHeight;
+      this.doc.addImage(logo, "PNG", (PAGE_WIDTH - logoWidth) / 2, this.y, logoWidth, logoHeight);
+      this.y += logoHeight + 6;
+    }
+
+    this.doc.setFont("helvetica", "bold");
+    this.doc.setFontSize(22);
+    this.doc.setTextColor(...PRIMARY);
+    this.doc.text("Officials Report", PAGE_WIDTH / 2, this.y + 6, { align: "center" });
+    this.y += 10;
+
+    if (reference) {
+      this.doc.setFont("helvetica", "normal");
+      this.doc.setFontSize(11);
+      this.doc.setTextColor(...MUTED);
+      this.doc.text(`Reference ${reference}`, PAGE_WIDTH / 2, this.y + 2, { align: "center" });
+      this.y += 6;
+    }
+
+    this.doc.setFillColor(...PRIMARY);
+    this.doc.roundedRect(PAGE_WIDTH / 2 - 12, this.y, 24, 1, 0.5, 0.5, "F");
+    this.y += 8;
+  }
+
+  sectionTitle(title: string) {
+    this.ensureSpace(20);
+    this.doc.setFillColor(...SECTION_BACKGROUND);
+    this.doc.setDrawColor(...BORDER);
+    this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, 9, "FD");
+    this.doc.setFont("helvetica", "bold");
+    this.doc.setFontSize(12);
+    this.doc.setTextColor(...TEXT);
+    this.doc.text(title, MARGIN + 4, this.y + 6);
+    this.y += 13;
+  }
+
+  private valueLines(value: string, width: number): string[] {
+    this.doc.setFont("helvetica", "normal");
+    this.doc.setFontSize(10);
+    return this.doc.splitTextToSize(value, width);
+  }
+
+  private label(text: string, x: number) {
+    this.doc.setFont("helvetica", "bold");
+    this.doc.setFontSize(8);
+    this.doc.setTextColor(...MUTED);
+    this.doc.text(text.toUpperCase(), x, this.y);
+  }
+
+  private lines(lines: string[], x: number, y: number) {
+    this.doc.setFont("helvetica", "normal");
+    this.doc.setFontSize(10);
+    this.doc.setTextColor(...TEXT);
+    lines.forEach((line, index) => this.doc.text(line, x, y + index * LINE_HEIGHT));
+  }
+
+  // Two fields side by side, like the md:grid-cols-2 layout on the form
+  fieldRow(entries: ReportEntry[]) {
+    const columns = entries.map((entry) => this.valueLines(entry.value, COLUMN_WIDTH - 4));
+    const height = 5 + Math.max(...columns.map((lines) => lines.length)) * LINE_HEIGHT + 3;
+    this.ensureSpace(height);
+
+    entries.forEach((entry, index) => {
+      const x = MARGIN + 4 + index * (COLUMN_WIDTH + COLUMN_GAP);
+      this.label(entry.label, x);
+      this.lines(columns[index], x, this.y + 5);
+    });
+    this.y += height;
+  }
+
+  // Full width block that may run over several pages
+  multilineField(entry: ReportEntry) {
+    const lines = this.valueLines(entry.value, CONTENT_WIDTH - 8);
+    this.ensureSpace(5 + LINE_HEIGHT * 2);
+    this.label(entry.label, MARGIN + 4);
+    this.y += 5;
+
+    lines.forEach((line) => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.lines([line], MARGIN + 4, this.y);
+      this.y += LINE_HEIGHT;
+    });
+    this.y += 3;
+  }
+
+  section(title: string, entries: ReportEntry[]) {
+    this.sectionTitle(title);
+
+    let pending: ReportEntry[] = [];
+    const flush = () => {
+      if (pending.length) this.fieldRow(pending);
+      pending = [];
+    };
+
+    entries.forEach((entry) => {
+      if (entry.multiline) {
+        flush();
+        this.multilineField(entry);
+        return;
+      }
+      pending.push(entry);
+      if (pending.length === 2) flush();
+    });
+    flush();
+    this.y += 4;
+  }
+
+  attachmentList(attachments: ReportDocumentAttachment[]) {
+    this.sectionTitle("Attachments");
+    attachments.forEach((attachment) => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.lines([`${attachment.filename} (${formatFileSize(attachment.size)})`], MARGIN + 4, this.y);
+      this.y += LINE_HEIGHT;
+    });
+    this.y += 4;
+  }
+
+  // Scaled to the content width, or shorter for tall photos, with the filename beneath
+  image(dataUrl: string, format: string, caption: string) {
+    const { width, height } = this.doc.getImageProperties(dataUrl);
+    const scale = Math.min(CONTENT_WIDTH / width, MAX_IMAGE_HEIGHT / height);
+    const imageWidth = width * scale;
+    const imageHeight = height * scale;
+    this.ensureSpace(imageHeight + 8);
+
+    this.doc.addImage(dataUrl, format, MARGIN + (CONTENT_WIDTH - imageWidth) / 2, this.y, imageWidth, imageHeight);
+    this.y += imageHeight + 4;
+    this.doc.setFont("helvetica", "italic");
+    this.doc.setFontSize(8);
+    this.doc.setTextColor(...MUTED);
+    this.doc.text(caption, PAGE_WIDTH / 2, this.y, { align: "center" });
+    this.y += 8;
+  }
+
+  generatedNote() {
+    this.ensureSpace(10);
+    this.doc.setDrawColor(...BORDER);
+    this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+    this.doc.setFont("helvetica", "italic");
+    this.doc.setFontSize(8);
+    this.doc.setTextColor(...MUTED);
+    this.doc.text(
+      `This report was generated via the Officials Report Form on ${new Date().toLocaleString()}`,
+      MARGIN,
+      this.y + 5,
+    );
+    this.y += 10;
+  }
+
+  // Stamps the sensitivity banner and page numbers once all content is laid out
+  banners() {
+    const pageCount = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      this.doc.setPage(page);
+      const top = PAGE_HEIGHT - MARGIN - BANNER_HEIGHT;
+
+      this.doc.setFillColor(...NOTICE_BACKGROUND);
+      this.doc.setDrawColor(...NOTICE_FOREGROUND);
+      this.doc.roundedRect(MARGIN, top, CONTENT_WIDTH, BANNER_HEIGHT, 2, 2, "FD");
+      this.doc.setFont("helvetica", "bold");
+      this.doc.setFontSize(8);
+      this.doc.setTextColor(...NOTICE_FOREGROUND);
+      this.doc.text(
+        this.doc.splitTextToSize(LIMITED_SHARING_NOTICE, CONTENT_WIDTH - 8),
+        PAGE_WIDTH / 2,
+        top + 5,
+        { align: "center" },
+      );
+
+      this.doc.setFont("helvetica", "normal");
+      this.doc.setTextColor(...MUTED);
+      this.doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN / 2, {
+        align: "right",
+      });
+    }
+  }
+}
+
+const loadImage = async (attachment: ReportDocumentAttachment) => {
+  try {
+    return await blobToDataUrl(await attachment.load());
+  } catch (error) {
+    // The attachment is still listed by name
+    console.warn(`Could not load ${attachment.filename} for PDF:`, error);
+    return null;
+  }
+};
+
+export async function createReportPdf({
+  data,
+  reference,
+  attachments = [],
+  employeeStatement,
+}: ReportDocument): Promise<Blob> {
+  const writer = new ReportPdfWriter();
+
+  writer.header(await loadLogo(), reference);
+  reportDocumentSections(data).forEach((section) => writer.section(section.title, section.entries));
+
+  if (employeeStatement) {
+    writer.section("Employee Statement", [
+      { label: "Given", value: format(employeeStatement.givenAt, "PPP p") },
+      { label: "Recorded By", value: employeeStatement.recordedBy || "N/A" },
+      { label: "Statement", value: employeeStatement.statement, multiline: true },
+    ]);
+  }
+
+  if (attachments.length) {
+    writer.attachmentList(attachments);
+    for (const attachment of attachments) {
+      const format = imageFormats[attachment.contentType];
+      const image = format && (await loadImage(attachment));
+      if (image) writer.image(image, format, attachment.filename);
+    }
+  }
+
+  writer.generatedNote();
+  writer.banners();
+
+  return writer.doc.output("blob");
+}
+
+export const pdfRenderer: ReportRenderer = {
+  label: "PDF (.pdf)",
+  extension: "pdf",
+  mimeType: "application/pdf",
+  render: createReportPdf,
+};
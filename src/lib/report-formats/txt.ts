@@ -0,0 +1,33 @@
+import { LIMITED_SHARING_NOTICE, reportDocumentSections } from "@/lib/officials-report";
+import { formatFileSize } from "@/lib/attachments";
+import type { ReportDocument, ReportRenderer } from "./types";
+
+export const createReportContent = ({ data, reference, attachments = [] }: ReportDocument) => {
+  const sections = reportDocumentSections(data).map((section) => {
+    const fields = section.entries.map((entry) =>
+      entry.multiline ? `• ${entry.label}: \n${entry.value}` : `• ${entry.label}: ${entry.value}`
+    );
+    return `${section.title.toUpperCase()}:\n${fields.join("\n")}`;
+  });
+
+  if (attachments.length) {
+    const files = attachments.map((attachment) => `• ${attachment.filename} (${formatFileSize(attachment.size)})`);
+    sections.push(`ATTACHMENTS:\n${files.join("\n")}`);
+  }
+
+  return `Officials Report${reference ? ` ${reference}` : ""}
+
+${sections.join("\n\n")}
+
+---
+${LIMITED_SHARING_NOTICE}
+This report was generated via the Officials Report Form
+Generated on: ${new Date().toLocaleString()}`;
+};
+
+export const txtRenderer: ReportRenderer = {
+  label: "Text (.txt)",
+  extension: "txt",
+  mimeType: "text/plain",
+  render: async (report) => new Blob([createReportContent(report)], { type: "text/plain" }),
+};
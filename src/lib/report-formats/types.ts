@@ -0,0 +1,33 @@
+import type { FormData } from "@/lib/officials-report";
+
+export interface ReportDocument {
+  data: FormData;
+  // Server-assigned reference, once the report has been stored
+  reference?: string;
+  // Garage short code for the filename, e.g. "FW"
+  garageCode?: string;
+  attachments?: ReportDocumentAttachment[];
+  // The employee's response, for the PDF pack given to reviewers
+  employeeStatement?: ReportDocumentStatement;
+}
+
+export interface ReportDocumentStatement {
+  statement: string;
+  givenAt: Date;
+  recordedBy?: string;
+}
+
+export interface ReportDocumentAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  // Fetched only by formats that embed the file, i.e. images in the PDF
+  load: () => Promise<Blob>;
+}
+
+export interface ReportRenderer {
+  label: string;
+  extension: string;
+  mimeType: string;
+  render: (report: ReportDocument) => Promise<Blob>;
+}
@@ -0,0 +1,143 @@
+import { getISODay, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { fetchAllPages } from "@/lib/batching";
+import {
+  analyticsColumns,
+  defaultDashboardFilters,
+  parseDashboardFilters,
+  toDashboardSearchParams,
+  type AnalyticsReport,
+  type DashboardFilters,
+} from "@/lib/report-analytics";
+
+export type HeatmapCount = Database["public"]["Functions"]["report_heatmap"]["Returns"][number];
+
+export interface HeatmapFilters extends DashboardFilters {
+  subject: string;
+}
+
+// Twelve weeks by default, so each day of the week has enough reports to show a pattern
+export const HEATMAP_DEFAULT_DAYS = 84;
+
+export const parseHeatmapFilters = (params: URLSearchParams): HeatmapFilters => ({
+  ...parseDashboardFilters(params, defaultDashboardFilters(HEATMAP_DEFAULT_DAYS)),
+  subject: params.get("subject") ?? "",
+});
+
+export const toHeatmapSearchParams = (filters: HeatmapFilters) => {
+  const params = toDashboardSearchParams(filters);
+  if (filters.subject) params.set("subject", filters.subject);
+  return params;
+};
+
+export async function fetchHeatmapCounts(filters: HeatmapFilters) {
+  const { data, error } = await supabase.rpc("report_heatmap", {
+    _from: filters.from,
+    _to: filters.to,
+    _garage: filters.garage || undefined,
+    _subject: filters.subject || undefined,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+// ISO days of the week, Monday first
+export const dayOfWeekLabels: Record<number, string> = {
+  1: "Monday",
+  2: "Tuesday",
+  3: "Wednesday",
+  4: "Thursday",
+  5: "Friday",
+  6: "Saturday",
+  7: "Sunday",
+};
+
+export interface HeatmapRow {
+  key: string;
+  label: string;
+  total: number;
+  // Reports per hour of the day, 0 to 23
+  hours: number[];
+}
+
+export interface HeatmapGrid {
+  rows: HeatmapRow[];
+  max: number;
+}
+
+const withMax = (rows: HeatmapRow[]): HeatmapGrid => ({ rows, max: Math.max(0, ...rows.flatMap((row) => row.hours)) });
+
+const fillRows = (rows: Map<string, HeatmapRow>, counts: HeatmapCount[], keyOf: (count: HeatmapCount) => string) => {
+  counts.forEach((count) => {
+    const row = rows.get(keyOf(count));
+    if (!row) return;
+    row.hours[count.hour] += count.reports;
+    row.total += count.reports;
+  });
+  return [...rows.values()];
+};
+
+const emptyRow = (key: string, label: string): HeatmapRow => ({ key, label, total: 0, hours: hours.map(() => 0) });
+
+// Routes by hour, busiest routes first. Past the limit the quieter routes are left off.
+export const routeHourGrid = (counts: HeatmapCount[], limit: number): HeatmapGrid => {
+  const routes = new Map<string, HeatmapRow>();
+  counts.forEach((count) => {
+    if (!routes.has(count.route)) routes.set(count.route, emptyRow(count.route, count.route));
+  });
+  const rows = fillRows(routes, counts, (count) => count.route).sort(
+    (a, b) => b.total - a.total || a.key.localeCompare(b.key, undefined, { numeric: true }),
+  );
+  return withMax(rows.slice(0, limit));
+};
+
+export const dayHourGrid = (counts: HeatmapCount[]): HeatmapGrid =>
+  withMax(
+    fillRows(
+      new Map(Object.entries(dayOfWeekLabels).map(([day, label]) => [day, emptyRow(day, label)])),
+      counts,
+      (count) => String(count.day_of_week),
+    ),
+  );
+
+// A clicked heatmap cell: an hour on one route, or an hour on one day of the week
+export interface HeatmapCell {
+  hour: number;
+  route?: string;
+  dayOfWeek?: number;
+}
+
+export const describeHeatmapCell = ({ hour, route, dayOfWeek }: HeatmapCell) => {
+  const time = `${String(hour).padStart(2, "0")}:00–${String(hour).padStart(2, "0")}:59`;
+  return route ? `Route ${route}, ${time}` : `${dayOfWeekLabels[dayOfWeek!]}s, ${time}`;
+};
+
+// The reports behind a cell that the user may open; row level security can make this
+// fewer than the cell's count.
+export async function fetchHeatmapReports(filters: HeatmapFilters, cell: HeatmapCell) {
+  const hour = String(cell.hour).padStart(2, "0");
+  const reports = await fetchAllPages<AnalyticsReport>((from, to) => {
+    let query = supabase
+      .from("officials_reports")
+      .select(analyticsColumns)
+      .gte("date_of_incident", filters.from)
+      .lte("date_of_incident", filters.to)
+      .gte("time_of_incident", `${hour}:00:00`)
+      .lte("time_of_incident", `${hour}:59:59`)
+      .order("date_of_incident", { ascending: false })
+      .order("time_of_incident")
+      .order("id")
+      .range(from, to);
+    if (filters.garage) query = query.eq("garage", filters.garage);
+    if (filters.subject) query = query.eq("subject_of_report", filters.subject);
+    if (cell.route) query = query.eq("route", cell.route);
+    return query;
+  });
+
+  return cell.dayOfWeek
+    ? reports.filter((report) => getISODay(parseISO(report.date_of_incident)) === cell.dayOfWeek)
+    : reports;
+}
@@ -0,0 +1,60 @@
+import type { AppRole } from "@/hooks/use-auth";
+import { Constants, type Enums, type Tables } from "@/integrations/supabase/types";
+
+export const reportStatuses = Constants.public.Enums.report_status;
+
+export type ReportStatus = Enums<"report_status">;
+
+export const reportStatusLabels: Record<ReportStatus, string> = {
+  submitted: "Submitted",
+  under_review: "Under Review",
+  actioned: "Actioned",
+  closed: "Closed",
+};
+
+export const reportStatusStyles: Record<ReportStatus, string> = {
+  submitted: "border-transparent bg-secondary text-secondary-foreground hover:bg-secondary",
+  under_review: "border-transparent bg-notice-background text-notice-foreground hover:bg-notice-background",
+  actioned: "border-transparent bg-primary text-primary-foreground hover:bg-primary",
+  closed: "text-muted-foreground",
+};
+
+export interface ReportTransition {
+  from: ReportStatus;
+  to: ReportStatus;
+  label: string;
+  roles: AppRole[];
+  // Outcome and action taken must be recorded
+  requiresOutcome?: boolean;
+  // Blocked until a garage manager has signed off reports whose subject needs it
+  requiresSignOff?: boolean;
+}
+
+// Keep in step with transition_report_status in the remove_draft_report_status migration.
+export const reportTransitions: ReportTransition[] = [
+  { from: "submitted", to: "under_review", label: "Start Review", roles: ["garage_manager", "hub_leader", "admin"] },
+  {
+    from: "under_review",
+    to: "actioned",
+    label: "Mark Actioned",
+    roles: ["garage_manager", "hub_leader", "admin"],
+    requiresOutcome: true,
+  },
+  { from: "actioned", to: "closed", label: "Close", roles: ["hub_leader", "admin"], requiresSignOff: true },
+  { from: "closed", to: "under_review", label: "Reopen", roles: ["hub_leader", "admin"] },
+];
+
+export const availableTransitions = (status: ReportStatus, roles: AppRole[]) =>
+  reportTransitions.filter(
+    (transition) => transition.from === status && transition.roles.some((role) => roles.includes(role))
+  );
+
+type SignOffFields = Pick<Tables<"officials_reports">, "status" | "requires_manager_signoff" | "signed_off_at">;
+
+// Keep in step with sign_off_report in the report subjects migration.
+export const awaitingSignOff = (report: SignOffFields) => report.requires_manager_signoff && !report.signed_off_at;
+
+export const canSignOff = (report: SignOffFields, roles: AppRole[]) =>
+  awaitingSignOff(report) &&
+  (report.status === "under_review" || report.status === "actioned") &&
+  roles.some((role) => role === "garage_manager" || role === "admin");
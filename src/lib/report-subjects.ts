@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, type Enums, type Tables, type TablesInsert } from "@/integrations/supabase/types";
+
+export type ReportSubject = Tables<"report_subjects">;
+export type ReportSubjectInput = Pick<
+  TablesInsert<"report_subjects">,
+  | "name"
+  | "category"
+  | "default_severity"
+  | "requires_manager_signoff"
+  | "repeat_alert_threshold"
+  | "repeat_alert_window_days"
+  | "retired_at"
+>;
+
+export type ReportSubjectCategory = Enums<"report_subject_category">;
+export type ReportSeverity = Enums<"report_severity">;
+
+export const reportSubjectCategories = Constants.public.Enums.report_subject_category;
+export const reportSeverities = Constants.public.Enums.report_severity;
+
+export const reportSubjectCategoryLabels: Record<ReportSubjectCategory, string> = {
+  conduct: "Conduct",
+  operational: "Operational",
+  safety: "Safety",
+  customer: "Customer",
+};
+
+export const reportSeverityLabels: Record<ReportSeverity, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  critical: "Critical",
+};
+
+export const reportSeverityStyles: Record<ReportSeverity, string> = {
+  low: "text-muted-foreground",
+  medium: "border-transparent bg-secondary text-secondary-foreground hover:bg-secondary",
+  high: "border-transparent bg-notice-background text-notice-foreground hover:bg-notice-background",
+  critical: "border-transparent bg-destructive text-destructive-foreground hover:bg-destructive",
+};
+
+export async function fetchReportSubjects(): Promise<ReportSubject[]> {
+  const { data, error } = await supabase.from("report_subjects").select("*").order("name");
+  if (error) throw error;
+  return data;
+}
+
+export async function saveReportSubject(input: ReportSubjectInput, id?: string) {
+  const { error } = id
+    ? await supabase.from("report_subjects").update(input).eq("id", id)
+    : await supabase.from("report_subjects").insert(input);
+  if (error) throw error;
+}
+
+// Subjects grouped under their parent category, in category order, skipping empty ones
+export const groupReportSubjects = (subjects: ReportSubject[]) =>
+  reportSubjectCategories
+    .map((category) => ({
+      category,
+      label: reportSubjectCategoryLabels[category],
+      subjects: subjects.filter((subject) => subject.category === category),
+    }))
+    .filter((group) => group.subjects.length > 0);
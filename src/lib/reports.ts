@@ -0,0 +1,258 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { FormData } from "@/lib/officials-report";
+import { fetchGarages, getGarageShortcut } from "@/lib/garages";
+import { fileToDocumentAttachment, uploadReportAttachments } from "@/lib/attachments";
+import { toCctvRequestRecord } from "@/lib/cctv";
+import { fromWitnessRecord, toWitnessRecords, type ReportWitness } from "@/lib/witnesses";
+import { renderReport } from "@/lib/report-formats";
+import { normalizeRouteNumber } from "@/lib/routes";
+import { REPORTS_PAGE_SIZE, type ReportFilters } from "@/lib/report-filters";
+import type { ReportStatus } from "@/lib/report-status";
+
+export interface SubmittedReport {
+  id: string;
+  reference: string;
+}
+
+// Maps the camelCase form values onto the snake_case officials_reports columns.
+export const toReportRecord = (data: FormData): TablesInsert<"officials_reports"> => ({
+  employee_name: data.employeeName,
+  employee_number: data.employeeNumber,
+  garage: data.garage,
+  route: normalizeRouteNumber(data.route),
+  date_of_report: format(data.dateOfReport, "yyyy-MM-dd"),
+  running_number: data.runningNumber,
+  date_of_incident: format(data.dateOfIncident, "yyyy-MM-dd"),
+  duty_number: data.dutyNumber,
+  time_of_incident: data.timeOfIncident,
+  trip_number: data.tripNumber,
+  location: data.location,
+  location_stop_code: data.locationStopCode || null,
+  location_latitude: data.locationLatitude ?? null,
+  location_longitude: data.locationLongitude ?? null,
+  fleet_number: data.fleetNumber,
+  registration: data.registration || null,
+  travelling_from: data.travellingFrom,
+  destination: data.destination,
+  subject_of_report: data.subjectOfReport,
+  details_of_incident: data.detailsOfIncident,
+  controller_name: data.controllerName,
+  extension_number: data.extensionNumber,
+});
+
+// clientId identifies this submission, so sending it again returns the report it already stored
+export async function submitOfficialsReport(data: FormData, clientId: string): Promise<SubmittedReport> {
+  const { data: rows, error } = await supabase.rpc("submit_officials_report", {
+    // Stored in the same transaction as the report
+    report: {
+      ...toReportRecord(data),
+      client_id: clientId,
+      cctv_request: toCctvRequestRecord(data),
+      witnesses: toWitnessRecords(data.witnesses),
+    },
+  });
+
+  if (error) throw error;
+  if (!rows?.length) throw new Error("The report was not stored");
+
+  return rows[0];
+}
+
+export interface ReportDelivery {
+  status: "sent";
+  messageId?: string;
+}
+
+const toBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Emails a stored report to the hub leaders via the send-officials-report edge function.
+export async function sendOfficialsReport(reportId: string, attachment: File): Promise<ReportDelivery> {
+  const { data, error } = await supabase.functions.invoke<ReportDelivery>("send-officials-report", {
+    body: {
+      reportId,
+      attachment: {
+        filename: attachment.name,
+        contentType: attachment.type,
+        content: await toBase64(attachment),
+      },
+    },
+  });
+
+  if (error) {
+    // Non-2xx responses carry the reason in the JSON body
+    const details = error.context instanceof Response
+      ? await error.context.json().catch(() => null)
+      : null;
+    throw new Error(details?.error ?? error.message);
+  }
+
+  return data;
+}
+
+export type ReportRecord = Tables<"officials_reports">;
+
+export const reportListColumns =
+  "id, reference, employee_name, employee_number, garage, route, date_of_incident, time_of_incident, subject_of_report, severity, status, created_at";
+
+export type ReportListItem = Pick<
+  ReportRecord,
+  | "id"
+  | "reference"
+  | "employee_name"
+  | "employee_number"
+  | "garage"
+  | "route"
+  | "date_of_incident"
+  | "time_of_incident"
+  | "subject_of_report"
+  | "severity"
+  | "status"
+  | "created_at"
+>;
+
+// One page of reports; row level security limits the rows to those the user may see.
+export async function fetchReports(filters: ReportFilters) {
+  const from = (filters.page - 1) * REPORTS_PAGE_SIZE;
+  let query = supabase
+    .from("officials_reports")
+    .select(reportListColumns, { count: "exact" })
+    .order(filters.sort, { ascending: filters.ascending })
+    .order("created_at", { ascending: false })
+    .range(from, from + REPORTS_PAGE_SIZE - 1);
+
+  if (filters.garage) query = query.eq("garage", filters.garage);
+  if (filters.route) query = query.ilike("route", `%${filters.route}%`);
+  if (filters.subject) query = query.eq("subject_of_report", filters.subject);
+  if (filters.employeeNumber) query = query.eq("employee_number", filters.employeeNumber);
+  if (filters.status) query = query.eq("status", filters.status as ReportStatus);
+  if (filters.from) query = query.gte("date_of_incident", filters.from);
+  if (filters.to) query = query.lte("date_of_incident", filters.to);
+
+  const { data, count, error } = await query;
+  if (error) throw error;
+
+  return { reports: data as ReportListItem[], total: count ?? 0 };
+}
+
+// Turns a stored row and its witnesses back into the form's shape so it can be displayed or exported.
+export const fromReportRecord = (record: ReportRecord, witnesses: ReportWitness[] = []): FormData => ({
+  employeeName: record.employee_name,
+  employeeNumber: record.employee_number,
+  garage: record.garage,
+  route: record.route,
+  dateOfReport: parseISO(record.date_of_report),
+  runningNumber: record.running_number,
+  dateOfIncident: parseISO(record.date_of_incident),
+  dutyNumber: record.duty_number,
+  timeOfIncident: record.time_of_incident.slice(0, 5),
+  tripNumber: record.trip_number,
+  location: record.location,
+  locationStopCode: record.location_stop_code ?? undefined,
+  locationLatitude: record.location_latitude ?? undefined,
+  locationLongitude: record.location_longitude ?? undefined,
+  fleetNumber: record.fleet_number,
+  registration: record.registration ?? "",
+  travellingFrom: record.travelling_from,
+  destination: record.destination,
+  subjectOfReport: record.subject_of_report,
+  detailsOfIncident: record.details_of_incident,
+  controllerName: record.controller_name,
+  extensionNumber: record.extension_number,
+  witnesses: witnesses.map(fromWitnessRecord),
+});
+
+export async function fetchReport(id: string) {
+  const { data, error } = await supabase
+    .from("officials_reports")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchReportHistory(reportId: string) {
+  const { data, error } = await supabase
+    .from("report_status_history")
+    .select("*")
+    .eq("report_id", reportId)
+    .order("changed_at");
+  if (error) throw error;
+  return data;
+}
+
+export interface ReportTransitionInput {
+  reportId: string;
+  to: ReportStatus;
+  note?: string;
+  outcome?: string;
+  actionTaken?: string;
+}
+
+export async function transitionReportStatus({ reportId, to, note, outcome, actionTaken }: ReportTransitionInput) {
+  const { data, error } = await supabase.rpc("transition_report_status", {
+    _report_id: reportId,
+    _to_status: to,
+    _note: note,
+    _outcome: outcome,
+    _action_taken: actionTaken,
+  });
+  if (error) throw error;
+  return data;
+}
+
+// Records the garage manager sign-off that some subjects need before closing.
+export async function signOffReport(reportId: string) {
+  const { data, error } = await supabase.rpc("sign_off_report", { _report_id: reportId });
+  if (error) throw error;
+  return data;
+}
+
+export interface ReportSubmissionResult extends SubmittedReport {
+  // Set when the report was stored but its attachments could not be uploaded
+  attachmentError?: string;
+  // Set when the report was stored but the email could not be sent
+  emailError?: string;
+}
+
+// Stores the report and its attachments, then emails it to the hub leaders with the
+// text report attached.
+export async function submitAndSendReport(
+  data: FormData,
+  clientId: string,
+  attachments: File[] = [],
+): Promise<ReportSubmissionResult> {
+  const submitted = await submitOfficialsReport(data, clientId);
+  const result: ReportSubmissionResult = { ...submitted };
+
+  try {
+    await uploadReportAttachments(submitted.id, attachments);
+  } catch (error) {
+    console.error("Failed to upload attachments:", error);
+    result.attachmentError = error instanceof Error ? error.message : "unknown error";
+  }
+
+  try {
+    const garages = await fetchGarages().catch(() => []);
+    const { blob, filename } = await renderReport("txt", {
+      data,
+      reference: submitted.reference,
+      garageCode: getGarageShortcut(data.garage, garages),
+      attachments: attachments.map(fileToDocumentAttachment),
+    });
+    await sendOfficialsReport(submitted.id, new File([blob], filename, { type: blob.type }));
+  } catch (error) {
+    console.error("Failed to email report:", error);
+    result.emailError = error instanceof Error ? error.message : "unknown error";
+  }
+
+  return result;
+}
@@ -0,0 +1,55 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { Garage } from "@/lib/garages";
+
+export type Route = Tables<"routes"> & { garage_ids: string[] };
+export type RouteInput = Pick<
+  TablesInsert<"routes">,
+  "route_number" | "terminus_a" | "terminus_b" | "active_from" | "active_to"
+>;
+
+// "Route h 32", "h32" and "H 32" are all route H32. Keep in step with the
+// normalise_report_routes migration.
+export const normalizeRouteNumber = (value: string) =>
+  value
+    .toUpperCase()
+    .replace(/^\s*ROUTE\b/, "")
+    .replace(/[^A-Z0-9]/g, "");
+
+const compareRouteNumbers = (a: Route, b: Route) =>
+  a.route_number.localeCompare(b.route_number, undefined, { numeric: true });
+
+export async function fetchRoutes(): Promise<Route[]> {
+  const { data, error } = await supabase.from("routes").select("*, route_garages(garage_id)");
+  if (error) throw error;
+  return data
+    .map(({ route_garages, ...route }) => ({ ...route, garage_ids: route_garages.map(({ garage_id }) => garage_id) }))
+    .sort(compareRouteNumbers);
+}
+
+// The route and its garages are saved together by the save_route function
+export async function saveRoute(input: RouteInput, garageIds: string[], id?: string) {
+  const { error } = await supabase.rpc("save_route", { _route: input, _garage_ids: garageIds, _id: id });
+  if (error) throw error;
+}
+
+export const findRoute = (routes: Route[], routeNumber: string) => {
+  const normalized = normalizeRouteNumber(routeNumber);
+  return routes.find((route) => route.route_number === normalized);
+};
+
+// Whether the route was running on the given day; open-ended dates count as running
+export const isRouteActive = (route: Route, date: Date) => {
+  const day = format(date, "yyyy-MM-dd");
+  return (!route.active_from || route.active_from <= day) && (!route.active_to || route.active_to >= day);
+};
+
+export const routeTermini = (route: Route) => [route.terminus_a, route.terminus_b].filter(Boolean).join(" – ");
+
+// Routes without any garages recorded are not flagged
+export const isRouteOperatedFrom = (route: Route, garageName: string, garages: Garage[]) => {
+  if (route.garage_ids.length === 0) return true;
+  const garage = garages.find((candidate) => candidate.name === garageName);
+  return !garage || route.garage_ids.includes(garage.id);
+};
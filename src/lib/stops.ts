@@ -0,0 +1,98 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { inBatches } from "@/lib/batching";
+import type { CsvRecord } from "@/lib/csv";
+
+export type Stop = Tables<"stops">;
+export type StopInput = Omit<TablesInsert<"stops">, "updated_at">;
+
+export interface GeoPosition {
+  latitude: number;
+  longitude: number;
+}
+
+// NaPTAN column names; the TfL bus stop file's Naptan_Atco, Bus_Stop_Code and Stop_Name also work
+export const stopCsvColumns = ["ATCOCode", "NaptanCode", "CommonName", "Indicator", "Street", "LocalityName", "Latitude", "Longitude"];
+
+const SEARCH_LIMIT = 20;
+const NEARBY_LIMIT = 10;
+// Roughly 500 m either way in London
+const NEARBY_LATITUDE_DELTA = 0.0045;
+const NEARBY_LONGITUDE_DELTA = 0.0075;
+
+// "Hounslow Bus Station (Stop A), Hounslow"
+export const stopDisplayName = (stop: Stop) =>
+  `${stop.common_name}${stop.indicator ? ` (${stop.indicator})` : ""}${stop.locality ? `, ${stop.locality}` : ""}`;
+
+export const distanceInMetres = (from: GeoPosition, to: GeoPosition) => {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const latitudeDelta = radians(to.latitude - from.latitude);
+  const longitudeDelta = radians(to.longitude - from.longitude);
+  const a =
+    Math.sin(latitudeDelta / 2) ** 2 +
+    Math.cos(radians(from.latitude)) * Math.cos(radians(to.latitude)) * Math.sin(longitudeDelta / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export async function searchStops(term: string): Promise<Stop[]> {
+  // Commas and brackets would break the PostgREST filter, and % and _ are wildcards
+  const cleaned = term.replace(/[%_,()*]/g, " ").trim();
+  if (!cleaned) return [];
+
+  const { data, error } = await supabase
+    .from("stops")
+    .select("*")
+    .or(`common_name.ilike.%${cleaned}%,naptan_code.ilike.${cleaned}%,atco_code.ilike.${cleaned}%`)
+    .order("common_name")
+    .limit(SEARCH_LIMIT);
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchNearbyStops(position: GeoPosition): Promise<Stop[]> {
+  const { data, error } = await supabase
+    .from("stops")
+    .select("*")
+    .gte("latitude", position.latitude - NEARBY_LATITUDE_DELTA)
+    .lte("latitude", position.latitude + NEARBY_LATITUDE_DELTA)
+    .gte("longitude", position.longitude - NEARBY_LONGITUDE_DELTA)
+    .lte("longitude", position.longitude + NEARBY_LONGITUDE_DELTA);
+  if (error) throw error;
+
+  const distanceTo = (stop: Stop) =>
+    distanceInMetres(position, { latitude: stop.latitude ?? 0, longitude: stop.longitude ?? 0 });
+  return data.sort((a, b) => distanceTo(a) - distanceTo(b)).slice(0, NEARBY_LIMIT);
+}
+
+export async function importStops(stops: StopInput[]) {
+  await inBatches(stops, async (batch) => {
+    const { error } = await supabase.from("stops").upsert(batch, { onConflict: "atco_code" });
+    if (error) throw error;
+  });
+}
+
+const parseCoordinate = (value: string | undefined) => {
+  const number = value ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : null;
+};
+
+export const parseStopRecord = (record: CsvRecord): StopInput | string => {
+  const atcoCode = record.atcocode || record.naptan_atco;
+  const commonName = record.commonname || record.stop_name;
+  if (!atcoCode) return "ATCOCode is missing";
+  if (!commonName) return "CommonName is missing";
+
+  return {
+    atco_code: atcoCode,
+    naptan_code: record.naptancode || record.bus_stop_code || null,
+    common_name: commonName,
+    indicator: record.indicator || null,
+    street: record.street || null,
+    locality: record.localityname || null,
+    latitude: parseCoordinate(record.latitude),
+    longitude: parseCoordinate(record.longitude),
+  };
+};
+
+export const mapLink = (position: GeoPosition) =>
+  `https://www.openstreetmap.org/?mlat=${position.latitude}&mlon=${position.longitude}#map=18/${position.latitude}/${position.longitude}`;
@@ -0,0 +1,105 @@
+import { createStore, del, delMany, entries, set } from "idb-keyval";
+import type { FormData } from "@/lib/officials-report";
+import { parseDraftValues, serializeDraftValues } from "@/lib/report-drafts";
+import { submitAndSendReport } from "@/lib/reports";
+
+export type QueuedSubmissionStatus = "queued" | "sending" | "sent" | "failed";
+
+export interface QueuedSubmission {
+  // Also the submission's client id, so a replay never stores the report twice
+  id: string;
+  userId: string;
+  // Serialised form values; dates are revived when the submission is replayed
+  values: string;
+  // IndexedDB keeps the files themselves
+  attachments?: File[];
+  label: string;
+  status: QueuedSubmissionStatus;
+  queuedAt: string;
+  reference?: string;
+  error?: string;
+}
+
+// Submissions made while offline wait here until the connection returns.
+const store = createStore("officials-report", "submission-queue");
+
+// The queue is shared by everyone who signs in on this browser, so each user only
+// sees and replays their own submissions.
+export const listQueuedSubmissions = async (userId: string) =>
+  (await entries<string, QueuedSubmission>(store))
+    .map(([, submission]) => submission)
+    .filter((submission) => submission.userId === userId)
+    .sort((a, b) => b.queuedAt.localeCompare(a.queuedAt));
+
+export const saveQueuedSubmission = (submission: QueuedSubmission) => set(submission.id, submission, store);
+
+export const removeQueuedSubmission = (id: string) => del(id, store);
+
+// Called on sign out, so nothing the user queued is left on the device
+export async function clearQueuedSubmissions(userId: string) {
+  const submissions = await listQueuedSubmissions(userId);
+  await delMany(submissions.map((submission) => submission.id), store);
+}
+
+export async function enqueueSubmission(userId: string, data: FormData, clientId: string, attachments: File[] = []) {
+  const submission: QueuedSubmission = {
+    id: clientId,
+    userId,
+    values: serializeDraftValues(data),
+    attachments,
+    label: [data.subjectOfReport, data.employeeName].filter(Boolean).join(" – "),
+    status: "queued",
+    queuedAt: new Date().toISOString(),
+  };
+  await saveQueuedSubmission(submission);
+  return submission;
+}
+
+// A submission left sending when its page was closed is queued again; the server
+// returns the stored report if it had already arrived.
+export async function resetStaleSubmissions(userId: string) {
+  const stale = (await listQueuedSubmissions(userId)).filter((submission) => submission.status === "sending");
+  await Promise.all(stale.map((submission) => saveQueuedSubmission({ ...submission, status: "queued" })));
+}
+
+// fetch rejects with a TypeError when the network is unreachable
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine || error instanceof TypeError || (error instanceof Error && /failed to fetch|network/i.test(error.message));
+
+// Sends one queued submission, recording the outcome in the queue
+export async function replaySubmission(submission: QueuedSubmission) {
+  await saveQueuedSubmission({ ...submission, status: "sending", error: undefined });
+
+  try {
+    const result = await submitAndSendReport(
+      parseDraftValues(submission.values) as FormData,
+      submission.id,
+      submission.attachments,
+    );
+    const problems = [
+      result.attachmentError && `the attachments were not uploaded (${result.attachmentError})`,
+      result.emailError && `the email was not sent (${result.emailError})`,
+    ].filter(Boolean);
+    const sent: QueuedSubmission = {
+      ...submission,
+      // Stored now, so the queue no longer needs to hold the files
+      attachments: undefined,
+      status: "sent",
+      reference: result.reference,
+      error: problems.length
+        ? [`Saved, but ${problems.join(" and ")}.`, result.attachmentError && "Add the attachments again from the report page."]
+            .filter(Boolean)
+            .join(" ")
+        : undefined,
+    };
+    await saveQueuedSubmission(sent);
+    return sent;
+  } catch (error) {
+    // Offline again: leave it queued for the next reconnect
+    const failed: QueuedSubmission = isNetworkError(error)
+      ? { ...submission, status: "queued" }
+      : { ...submission, status: "failed", error: error instanceof Error ? error.message : "The report could not be stored" };
+    await saveQueuedSubmission(failed);
+    return failed;
+  }
+}
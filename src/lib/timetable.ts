@@ -0,0 +1,84 @@
+import { createStore, del, get, set } from "idb-keyval";
+import { format, subDays } from "date-fns";
+import { normalizeRouteNumber } from "@/lib/routes";
+
+// A scheduled journey, reduced to what the report form needs
+export interface TimetableTrip {
+  routeNumber: string;
+  serviceId: string;
+  tripNumber: string;
+  runningNumber: string;
+  // Only present when the feed carries duties, which standard GTFS does not
+  dutyNumber?: string;
+  // Minutes after midnight of the service day; GTFS times run past 24:00 for late journeys
+  start: number;
+  end: number;
+  origin: string;
+  destination: string;
+}
+
+// Days run Monday to Sunday; dates are yyyyMMdd as in GTFS
+export interface TimetableService {
+  days: boolean[];
+  startDate: string;
+  endDate: string;
+  added: string[];
+  removed: string[];
+}
+
+export interface Timetable {
+  name: string;
+  importedAt: string;
+  trips: TimetableTrip[];
+  services: Record<string, TimetableService>;
+}
+
+// Timetables are large and only used for suggestions, so they stay on this device
+// rather than in Supabase. This needs its own database: idb-keyval creates a single
+// store per database.
+const store = createStore("officials-report-timetable", "timetable");
+const TIMETABLE_KEY = "timetable";
+
+export const loadTimetable = async () => (await get<Timetable>(TIMETABLE_KEY, store)) ?? null;
+
+export const saveTimetable = (timetable: Timetable) => set(TIMETABLE_KEY, timetable, store);
+
+export const clearTimetable = () => del(TIMETABLE_KEY, store);
+
+const serviceDay = (date: Date) => format(date, "yyyyMMdd");
+
+export const isServiceRunning = (service: TimetableService | undefined, date: Date) => {
+  if (!service) return false;
+  const day = serviceDay(date);
+  if (service.removed.includes(day)) return false;
+  if (service.added.includes(day)) return true;
+  return day >= service.startDate && day <= service.endDate && service.days[(date.getDay() + 6) % 7];
+};
+
+export const parseTimeOfDay = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return Number.isNaN(hours) || Number.isNaN(minutes) ? null : hours * 60 + minutes;
+};
+
+export const formatTimeOfDay = (minutes: number) =>
+  `${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+// Journeys on the route in progress at the given time, including ones that started
+// the previous service day and run past midnight.
+export function findScheduledTrips(timetable: Timetable, routeNumber: string, date: Date, time: string) {
+  const minutes = parseTimeOfDay(time);
+  if (minutes === null) return [];
+
+  const route = normalizeRouteNumber(routeNumber);
+  const previousDay = subDays(date, 1);
+  const inProgress = (trip: TimetableTrip, at: number) => trip.start <= at && at <= trip.end;
+
+  return timetable.trips
+    .filter(
+      (trip) =>
+        trip.routeNumber === route &&
+        ((inProgress(trip, minutes) && isServiceRunning(timetable.services[trip.serviceId], date)) ||
+          (inProgress(trip, minutes + 24 * 60) && isServiceRunning(timetable.services[trip.serviceId], previousDay)))
+    )
+    .sort((a, b) => a.start - b.start);
+}
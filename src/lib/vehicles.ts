@@ -0,0 +1,53 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { fetchAllPages, inBatches } from "@/lib/batching";
+import { parseCsvBoolean, type CsvRecord } from "@/lib/csv";
+import { findGarageByCodeOrName, type Garage } from "@/lib/garages";
+
+export type Vehicle = Tables<"vehicles">;
+export type VehicleInput = Pick<
+  TablesInsert<"vehicles">,
+  "fleet_number" | "registration" | "vehicle_type" | "garage_id" | "in_service"
+>;
+
+export const vehicleCsvColumns = ["fleet_number", "registration", "type", "garage", "in_service"];
+
+export async function fetchVehicles(): Promise<Vehicle[]> {
+  return fetchAllPages((from, to) =>
+    supabase.from("vehicles").select("*").order("fleet_number").range(from, to)
+  );
+}
+
+export async function importVehicles(vehicles: VehicleInput[]) {
+  await inBatches(vehicles, async (batch) => {
+    const { error } = await supabase.from("vehicles").upsert(batch, { onConflict: "fleet_number" });
+    if (error) throw error;
+  });
+}
+
+export const parseVehicleRecord = (record: CsvRecord, garages: Garage[]): VehicleInput | string => {
+  const fleetNumber = record.fleet_number?.toUpperCase();
+  const registration = record.registration?.toUpperCase();
+  if (!fleetNumber) return "fleet_number is missing";
+  if (!registration) return "registration is missing";
+
+  let garageId: string | null = null;
+  if (record.garage) {
+    const garage = findGarageByCodeOrName(garages, record.garage);
+    if (!garage) return `unknown garage "${record.garage}"`;
+    garageId = garage.id;
+  }
+
+  return {
+    fleet_number: fleetNumber,
+    registration,
+    vehicle_type: record.type || record.vehicle_type || null,
+    garage_id: garageId,
+    in_service: parseCsvBoolean(record.in_service, true),
+  };
+};
+
+export const findVehicle = (vehicles: Vehicle[], fleetNumber: string) => {
+  const normalized = fleetNumber.trim().toUpperCase();
+  return vehicles.find((vehicle) => vehicle.fleet_number === normalized);
+};
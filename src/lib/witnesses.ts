@@ -0,0 +1,86 @@
+import * as z from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, type Enums, type Tables } from "@/integrations/supabase/types";
+
+export type ReportWitness = Tables<"report_witnesses">;
+export type WitnessRole = Enums<"witness_role">;
+
+export const witnessRoles = Constants.public.Enums.witness_role;
+
+export const witnessRoleLabels: Record<WitnessRole, string> = {
+  passenger: "Passenger",
+  member_of_public: "Member of the public",
+  staff: "Staff",
+  other: "Other",
+};
+
+export const witnessSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    role: z.enum(witnessRoles, { required_error: "Role is required" }),
+    contact: z.string().optional(),
+    statement: z.string().optional(),
+    consentToContact: z.boolean(),
+  })
+  .refine((witness) => !witness.consentToContact || !!witness.contact?.trim(), {
+    path: ["contact"],
+    message: "Contact details are required when the witness agrees to be contacted",
+  });
+
+export type Witness = z.infer<typeof witnessSchema>;
+
+export const emptyWitness = (): Witness => ({
+  name: "",
+  role: "passenger",
+  contact: "",
+  statement: "",
+  consentToContact: false,
+});
+
+export interface WitnessField {
+  name: keyof Witness;
+  label: string;
+  multiline?: boolean;
+}
+
+export const witnessFields: WitnessField[] = [
+  { name: "name", label: "Name" },
+  { name: "role", label: "Role" },
+  { name: "contact", label: "Contact" },
+  { name: "consentToContact", label: "Consent to Contact" },
+  { name: "statement", label: "Statement", multiline: true },
+];
+
+export const formatWitnessField = (witness: Witness, name: keyof Witness) => {
+  if (name === "role") return witnessRoleLabels[witness.role] ?? witness.role;
+  if (name === "consentToContact") return witness.consentToContact ? "Yes" : "No";
+  return witness[name]?.trim() || "N/A";
+};
+
+// The witness rows sent with the report under the witnesses key
+export const toWitnessRecords = (witnesses: Witness[] = []) =>
+  witnesses.map((witness) => ({
+    name: witness.name.trim(),
+    role: witness.role,
+    contact: witness.contact?.trim() || null,
+    statement: witness.statement?.trim() || null,
+    consent_to_contact: witness.consentToContact,
+  }));
+
+export const fromWitnessRecord = (record: ReportWitness): Witness => ({
+  name: record.name,
+  role: record.role,
+  contact: record.contact ?? "",
+  statement: record.statement ?? "",
+  consentToContact: record.consent_to_contact,
+});
+
+export async function fetchReportWitnesses(reportId: string) {
+  const { data, error } = await supabase
+    .from("report_witnesses")
+    .select("*")
+    .eq("report_id", reportId)
+    .order("position");
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,66 @@
+// Just enough of the ZIP format to stream files out of an archive in the browser,
+// using the built-in DecompressionStream rather than a library.
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+const readView = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+export async function readZipEntries(zip: Blob): Promise<ZipEntry[]> {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  const tailStart = Math.max(0, zip.size - 22 - 0xffff);
+  const tail = await readView(zip, tailStart, zip.size);
+  let eocd = -1;
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("The file is not a ZIP archive");
+
+  const count = tail.getUint16(eocd + 10, true);
+  const size = tail.getUint32(eocd + 12, true);
+  const start = tail.getUint32(eocd + 16, true);
+  if (start === 0xffffffff) throw new Error("ZIP64 archives are not supported");
+
+  const directory = await readView(zip, start, start + size);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let index = 0; index < count; index++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error("The ZIP archive is corrupt");
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength);
+    entries.push({
+      name: decoder.decode(nameBytes),
+      method: directory.getUint16(offset + 10, true),
+      compressedSize: directory.getUint32(offset + 20, true),
+      localHeaderOffset: directory.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// The file's contents as a stream of bytes
+export async function openZipEntry(zip: Blob, entry: ZipEntry): Promise<ReadableStream<Uint8Array>> {
+  const header = await readView(zip, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = zip.slice(dataStart, dataStart + entry.compressedSize).stream();
+
+  if (entry.method === STORED) return data;
+  if (entry.method === DEFLATED) return data.pipeThrough(new DecompressionStream("deflate-raw"));
+  throw new Error(`${entry.name} uses an unsupported compression method`);
+}
@@ -0,0 +1,115 @@
+import { useMemo, useState } from "react";
+import { Upload } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { CsvImportDialog } from "@/components/CsvImportDialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useGarages } from "@/hooks/use-garages";
+import { useEmployees, useImportEmployees } from "@/hooks/use-employees";
+import { employeeCsvColumns, parseEmployeeRecord } from "@/lib/employees";
+
+// The directory runs to thousands of people, so only the first matches are listed
+const MAX_LISTED = 100;
+
+const AdminEmployees = () => {
+  const { data: employees = [], isLoading } = useEmployees();
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+  const { mutateAsync: importEmployees } = useImportEmployees();
+  const [search, setSearch] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  const matching = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return needle
+      ? employees.filter(
+          (employee) =>
+            employee.employee_number.toLowerCase().includes(needle) || employee.full_name.toLowerCase().includes(needle)
+        )
+      : employees;
+  }, [employees, search]);
+
+  const garageName = (garageId: string | null) => garages.find((garage) => garage.id === garageId)?.name;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-5xl">
+        <AppNav />
+
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-xl font-semibold text-foreground">Employee Directory</CardTitle>
+              <Button size="sm" onClick={() => setImporting(true)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <Input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search by employee number or name"
+              aria-label="Search employees"
+              className="bg-input border-border max-w-sm"
+            />
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee Number</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Home Garage</TableHead>
+                  <TableHead>Grade</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      Loading employees...
+                    </TableCell>
+                  </TableRow>
+                )}
+                {!isLoading && matching.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No employees found.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {matching.slice(0, MAX_LISTED).map((employee) => (
+                  <TableRow key={employee.id}>
+                    <TableCell className="font-medium">{employee.employee_number}</TableCell>
+                    <TableCell>{employee.full_name}</TableCell>
+                    <TableCell>{garageName(employee.home_garage_id) ?? "—"}</TableCell>
+                    <TableCell>{employee.grade || "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {matching.length > MAX_LISTED && (
+              <p className="text-sm text-muted-foreground">
+                Showing {MAX_LISTED} of {matching.length} employees. Search to narrow the list.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {importing && (
+        <CsvImportDialog
+          title="Import Employee Directory"
+          columns={employeeCsvColumns}
+          parseRecord={(record) => parseEmployeeRecord(record, garages)}
+          rowKey={(employee) => employee.employee_number}
+          onImport={importEmployees}
+          onClose={() => setImporting(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminEmployees;
@@ -0,0 +1,119 @@
+import { useMemo, useState } from "react";
+import { Upload } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { CsvImportDialog } from "@/components/CsvImportDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useGarages } from "@/hooks/use-garages";
+import { useImportVehicles, useVehicles } from "@/hooks/use-vehicles";
+import { parseVehicleRecord, vehicleCsvColumns } from "@/lib/vehicles";
+
+// The register runs to hundreds of vehicles, so only the first matches are listed
+const MAX_LISTED = 100;
+
+const AdminFleet = () => {
+  const { data: vehicles = [], isLoading } = useVehicles();
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+  const { mutateAsync: importVehicles } = useImportVehicles();
+  const [search, setSearch] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  const matching = useMemo(() => {
+    const needle = search.trim().toUpperCase();
+    return needle
+      ? vehicles.filter((vehicle) => vehicle.fleet_number.includes(needle) || vehicle.registration.includes(needle))
+      : vehicles;
+  }, [vehicles, search]);
+
+  const garageName = (garageId: string | null) => garages.find((garage) => garage.id === garageId)?.name;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-5xl">
+        <AppNav />
+
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-xl font-semibold text-foreground">Fleet Register</CardTitle>
+              <Button size="sm" onClick={() => setImporting(true)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <Input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search by fleet number or registration"
+              aria-label="Search vehicles"
+              className="bg-input border-border max-w-sm"
+            />
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fleet Number</TableHead>
+                  <TableHead>Registration</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Garage</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      Loading vehicles...
+                    </TableCell>
+                  </TableRow>
+                )}
+                {!isLoading && matching.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No vehicles found.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {matching.slice(0, MAX_LISTED).map((vehicle) => (
+                  <TableRow key={vehicle.id}>
+                    <TableCell className="font-medium">{vehicle.fleet_number}</TableCell>
+                    <TableCell>{vehicle.registration}</TableCell>
+                    <TableCell>{vehicle.vehicle_type || "—"}</TableCell>
+                    <TableCell>{garageName(vehicle.garage_id) ?? "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={vehicle.in_service ? "secondary" : "outline"}>
+                        {vehicle.in_service ? "In Service" : "Out of Service"}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {matching.length > MAX_LISTED && (
+              <p className="text-sm text-muted-foreground">
+                Showing {MAX_LISTED} of {matching.length} vehicles. Search to narrow the list.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {importing && (
+        <CsvImportDialog
+          title="Import Fleet Register"
+          columns={vehicleCsvColumns}
+          parseRecord={(record) => parseVehicleRecord(record, garages)}
+          rowKey={(vehicle) => vehicle.fleet_number}
+          onImport={importVehicles}
+          onClose={() => setImporting(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminFleet;
@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Pencil, Plus } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useGarages, useSaveGarage } from "@/hooks/use-garages";
+import type { Garage } from "@/lib/garages";
+
+const garageSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  shortCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9]{1,6}$/, "Use 1 to 6 letters or digits"),
+  address: z.string().optional(),
+  active: z.boolean(),
+  defaultRecipientEmail: z.string().trim().email("Enter a valid email address").or(z.literal("")),
+  cctvRetentionDays: z.coerce.number().int("Enter a whole number of days").min(1, "Enter at least 1 day"),
+});
+
+type GarageFormData = z.infer<typeof garageSchema>;
+
+interface GarageDialogProps {
+  garage: Garage | null;
+  onClose: () => void;
+}
+
+function GarageDialog({ garage, onClose }: GarageDialogProps) {
+  const { toast } = useToast();
+  const { mutateAsync } = useSaveGarage();
+
+  const form = useForm<GarageFormData>({
+    resolver: zodResolver(garageSchema),
+    defaultValues: {
+      name: garage?.name ?? "",
+      shortCode: garage?.short_code ?? "",
+      address: garage?.address ?? "",
+      active: garage?.active ?? true,
+      defaultRecipientEmail: garage?.default_recipient_email ?? "",
+      cctvRetentionDays: garage?.cctv_retention_days ?? 14,
+    },
+  });
+
+  const onSubmit = async (values: GarageFormData) => {
+    try {
+      await mutateAsync({
+        id: garage?.id,
+        input: {
+          name: values.name,
+          short_code: values.shortCode,
+          address: values.address?.trim() || null,
+          active: values.active,
+          default_recipient_email: values.defaultRecipientEmail || null,
+          cctv_retention_days: values.cctvRetentionDays,
+        },
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Garage Not Saved",
+        description: error instanceof Error ? error.message : "The garage could not be saved.",
+      });
+      return;
+    }
+
+    toast({ title: "Garage Saved", description: `${values.name} has been saved.` });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{garage ? "Edit Garage" : "Add Garage"}</DialogTitle>
+          <DialogDescription>
+            Reports and garage managers refer to a garage by its name, so it cannot be renamed once in use.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="bg-input border-border" />
+                  </FormControl>
+                  <FormDescription>To replace a garage in use, make it inactive and add a new one</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="shortCode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Short Code *</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="bg-input border-border uppercase" />
+                  </FormControl>
+                  <FormDescription>Used in report filenames, e.g. FW</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="bg-input border-border" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="defaultRecipientEmail"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Default Recipient Email</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="email" className="bg-input border-border" />
+                  </FormControl>
+                  <FormDescription>Copied in on submitted reports as well as the hub leaders</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="cctvRetentionDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>CCTV Retention (days) *</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" min={1} className="bg-input border-border" />
+                  </FormControl>
+                  <FormDescription>How long the garage's vehicles keep footage before overwriting it</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive garages are hidden from the report and sign-up forms</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const AdminGarages = () => {
+  const { data: garages = [], isLoading } = useGarages({ includeInactive: true });
+  // null while adding a new garage, undefined when the dialog is closed
+  const [editing, setEditing] = useState<Garage | null | undefined>(undefined);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-5xl">
+        <AppNav />
+
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-xl font-semibold text-foreground">Garages</CardTitle>
+              <Button size="sm" onClick={() => setEditing(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Garage
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Short Code</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Default Recipient</TableHead>
+                  <TableHead>CCTV Retention</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      Loading garages...
+                    </TableCell>
+                  </TableRow>
+                )}
+                {garages.map((garage) => (
+                  <TableRow key={garage.id}>
+                    <TableCell className="font-medium">{garage.name}</TableCell>
+                    <TableCell>{garage.short_code}</TableCell>
+                    <TableCell>{garage.address || "—"}</TableCell>
+                    <TableCell>{garage.default_recipient_email || "—"}</TableCell>
+                    <TableCell>{garage.cctv_retention_days} days</TableCell>
+                    <TableCell>
+                      <Badge variant={garage.active ? "secondary" : "outline"}>
+                        {garage.active ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditing(garage)}
+                        aria-label={`Edit ${garage.name}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      {editing !== undefined && <GarageDialog garage={editing} onClose={() => setEditing(undefined)} />}
+    </div>
+  );
+};
+
+export default AdminGarages;
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format, parseISO } from "date-fns";
+import { Pencil, Plus } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useGarages } from "@/hooks/use-garages";
+import { useRoutes, useSaveRoute } from "@/hooks/use-routes";
+import { normalizeRouteNumber, routeTermini, type Route } from "@/lib/routes";
+
+const routeSchema = z
+  .object({
+    routeNumber: z
+      .string()
+      .transform(normalizeRouteNumber)
+      .pipe(z.string().min(1, "Route number is required")),
+    terminusA: z.string().optional(),
+    terminusB: z.string().optional(),
+    activeFrom: z.string().optional(),
+    activeTo: z.string().optional(),
+    garageIds: z.array(z.string()),
+  })
+  .refine((values) => !values.activeFrom || !values.activeTo || values.activeTo >= values.activeFrom, {
+    message: "Active to must be on or after active from",
+    path: ["activeTo"],
+  });
+
+type RouteFormInput = z.input<typeof routeSchema>;
+type RouteFormData = z.output<typeof routeSchema>;
+
+const formatActiveDate = (date: string | null) => (date ? format(parseISO(date), "dd MMM yyyy") : null);
+
+interface RouteDialogProps {
+  route: Route | null;
+  onClose: () => void;
+}
+
+function RouteDialog({ route, onClose }: RouteDialogProps) {
+  const { toast } = useToast();
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+  const { mutateAsync } = useSaveRoute();
+
+  const form = useForm<RouteFormInput, unknown, RouteFormData>({
+    resolver: zodResolver(routeSchema),
+    defaultValues: {
+      routeNumber: route?.route_number ?? "",
+      terminusA: route?.terminus_a ?? "",
+      terminusB: route?.terminus_b ?? "",
+      activeFrom: route?.active_from ?? "",
+      activeTo: route?.active_to ?? "",
+      garageIds: route?.garage_ids ?? [],
+    },
+  });
+
+  const onSubmit = async (values: RouteFormData) => {
+    try {
+      await mutateAsync({
+        id: route?.id,
+        garageIds: values.garageIds,
+        input: {
+          route_number: values.routeNumber,
+          terminus_a: values.terminusA?.trim() || null,
+          terminus_b: values.terminusB?.trim() || null,
+          active_from: values.activeFrom || null,
+          active_to: values.activeTo || null,
+        },
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Route Not Saved",
+        description: error instanceof Error ? error.message : "The route could not be saved.",
+      });
+      return;
+    }
+
+    toast({ title: "Route Saved", description: `Route ${values.routeNumber} has been saved.` });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{route ? "Edit Route" : "Add Route"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="routeNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Route Number *</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="bg-input border-border uppercase" />
+                  </FormControl>
+                  <FormDescription>Spaces and a leading "Route" are removed, e.g. H32</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="terminusA"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Terminus</FormLabel>
+                    <FormControl>
+                      <Input {...field} className="bg-input border-border" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="terminusB"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Other Terminus</FormLabel>
+                    <FormControl>
+                      <Input {...field} className="bg-input border-border" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="activeFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Active From</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" className="bg-input border-border" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="activeTo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Active To</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" className="bg-input border-border" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="garageIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Operating Garages</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {garages.map((garage) => (
+                      <div key={garage.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`route-garage-${garage.id}`}
+                          checked={field.value.includes(garage.id)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked === true
+                                ? [...field.value, garage.id]
+                                : field.value.filter((garageId) => garageId !== garage.id)
+                            )
+                          }
+                        />
+                        <Label htmlFor={`route-garage-${garage.id}`} className="font-normal">
+                          {garage.name}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const AdminRoutes = () => {
+  const { data: routes = [], isLoading } = useRoutes();
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+  // null while adding a new route, undefined when the dialog is closed
+  const [editing, setEditing] = useState<Route | null | undefined>(undefined);
+
+  const garageNames = (route: Route) =>
+    garages
+      .filter((garage) => route.garage_ids.includes(garage.id))
+      .map((garage) => garage.name)
+      .join(", ");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-5xl">
+        <AppNav />
+
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-xl font-semibold text-foreground">Routes</CardTitle>
+              <Button size="sm" onClick={() => setEditing(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Route
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Termini</TableHead>
+                  <TableHead>Garages</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      Loading routes...
+                    </TableCell>
+                  </TableRow>
+                )}
+                {routes.map((route) => (
+                  <TableRow key={route.id}>
+                    <TableCell className="font-medium">{route.route_number}</TableCell>
+                    <TableCell>{routeTermini(route) || "—"}</TableCell>
+                    <TableCell>{garageNames(route) || "—"}</TableCell>
+                    <TableCell>
+                      {route.active_from || route.active_to
+                        ? `${formatActiveDate(route.active_from) ?? "Always"} – ${formatActiveDate(route.active_to) ?? "Ongoing"}`
+                        : "Always"}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditing(route)}
+                        aria-label={`Edit route ${route.route_number}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      {editing !== undefined && <RouteDialog route={editing} onClose={() => setEditing(undefined)} />}
+    </div>
+  );
+};
+
+export default AdminRoutes;
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Upload } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { CsvImportDialog } from "@/components/CsvImportDialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useImportStops, useStopSearch } from "@/hooks/use-stops";
+import { mapLink, parseStopRecord, stopCsvColumns } from "@/lib/stops";
+
+const SEARCH_DELAY_MS = 250;
+
+const AdminStops = () => {
+  const { mutateAsync: importStops } = useImportStops();
+  const [search, setSearch] = useState("");
+  const [term, setTerm] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setTerm(search), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const searching = term.trim().length >= 2;
+  const { data: stops = [], isFetching } = useStopSearch(term);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-5xl">
+        <AppNav />
+
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-xl font-semibold text-foreground">Stops</CardTitle>
+              <Button size="sm" onClick={() => setImporting(true)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <Input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search by stop name, NaPTAN code or ATCO code"
+              aria-label="Search stops"
+              className="bg-input border-border max-w-sm"
+            />
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ATCO Code</TableHead>
+                  <TableHead>Stop Code</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Street</TableHead>
+                  <TableHead>Locality</TableHead>
+                  <TableHead>Map</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!searching && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      Enter at least two characters to search the stop list.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {searching && isFetching && stops.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      Searching stops...
+                    </TableCell>
+                  </TableRow>
+                )}
+                {searching && !isFetching && stops.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No stops found.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {searching &&
+                  stops.map((stop) => (
+                    <TableRow key={stop.atco_code}>
+                      <TableCell className="font-medium">{stop.atco_code}</TableCell>
+                      <TableCell>{stop.naptan_code || "—"}</TableCell>
+                      <TableCell>
+                        {stop.common_name}
+                        {stop.indicator && <span className="text-muted-foreground"> ({stop.indicator})</span>}
+                      </TableCell>
+                      <TableCell>{stop.street || "—"}</TableCell>
+                      <TableCell>{stop.locality || "—"}</TableCell>
+                      <TableCell>
+                        {stop.latitude !== null && stop.longitude !== null ? (
+                          <a
+                            href={mapLink({ latitude: stop.latitude, longitude: stop.longitude })}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-primary hover:underline"
+                          >
+                            View
+                          </a>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+            {searching && stops.length > 0 && (
+              <p className="text-sm text-muted-foreground">Showing the first {stops.length} matches.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {importing && (
+        <CsvImportDialog
+          title="Import Stops"
+          columns={stopCsvColumns}
+          parseRecord={parseStopRecord}
+          rowKey={(stop) => stop.atco_code}
+          onImport={importStops}
+          onClose={() => setImporting(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminStops;
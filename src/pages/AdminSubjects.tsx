@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format, parseISO } from "date-fns";
+import { Pencil, Plus } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { ReportSeverityBadge } from "@/components/ReportSeverityBadge";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useReportSubjects, useSaveReportSubject } from "@/hooks/use-report-subjects";
+import { historyWindowLabel, historyWindows } from "@/lib/employee-history";
+import {
+  groupReportSubjects,
+  reportSeverities,
+  reportSeverityLabels,
+  reportSubjectCategories,
+  reportSubjectCategoryLabels,
+  type ReportSubject,
+} from "@/lib/report-subjects";
+
+const NO_ALERT = "none";
+
+const subjectSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    category: z.enum(reportSubjectCategories),
+    defaultSeverity: z.enum(reportSeverities),
+    requiresManagerSignoff: z.boolean(),
+    repeatAlertWindow: z.string(),
+    repeatAlertThreshold: z.coerce.number().int("Enter a whole number of reports"),
+    retired: z.boolean(),
+  })
+  .refine((subject) => subject.repeatAlertWindow === NO_ALERT || subject.repeatAlertThreshold >= 2, {
+    path: ["repeatAlertThreshold"],
+    message: "Alert from at least 2 reports",
+  });
+
+type SubjectFormData = z.infer<typeof subjectSchema>;
+
+interface SubjectDialogProps {
+  subject: ReportSubject | null;
+  onClose: () => void;
+}
+
+function SubjectDialog({ subject, onClose }: SubjectDialogProps) {
+  const { toast } = useToast();
+  const { mutateAsync } = useSaveReportSubject();
+
+  const form = useForm<SubjectFormData>({
+    resolver: zodResolver(subjectSchema),
+    defaultValues: {
+      name: subject?.name ?? "",
+      category: subject?.category ?? "conduct",
+      defaultSeverity: subject?.default_severity ?? "medium",
+      requiresManagerSignoff: subject?.requires_manager_signoff ?? false,
+      repeatAlertWindow: subject?.repeat_alert_window_days ? String(subject.repeat_alert_window_days) : NO_ALERT,
+      repeatAlertThreshold: subject?.repeat_alert_threshold ?? 3,
+      retired: !!subject?.retired_at,
+    },
+  });
+
+  const alertWindow = form.watch("repeatAlertWindow");
+
+  const onSubmit = async (values: SubjectFormData) => {
+    const alerting = values.repeatAlertWindow !== NO_ALERT;
+    try {
+      await mutateAsync({
+        id: subject?.id,
+        input: {
+          name: values.name,
+          category: values.category,
+          default_severity: values.defaultSeverity,
+          requires_manager_signoff: values.requiresManagerSignoff,
+          repeat_alert_window_days: alerting ? Number(values.repeatAlertWindow) : null,
+          repeat_alert_threshold: alerting ? values.repeatAlertThreshold : null,
+          // Keep the original retirement date when an already retired subject is edited
+          retired_at: values.retired ? subject?.retired_at ?? new Date().toISOString() : null,
+        },
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Subject Not Saved",
+        description: error instanceof Error ? error.message : "The subject could not be saved.",
+      });
+      return;
+    }
+
+    toast({ title: "Subject Saved", description: `${values.name} has been saved.` });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{subject ? "Edit Subject" : "Add Subject"}</DialogTitle>
+          <DialogDescription>
+            Existing reports keep the subject, severity and sign-off requirement they were submitted with.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="bg-input border-border" />
+                  </FormControl>
+                  <FormDescription>Cannot be changed once reports use it; retire the subject instead</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="bg-input border-border">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-popover border-border">
+                        {reportSubjectCategories.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {reportSubjectCategoryLabels[category]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="defaultSeverity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Default Severity *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="bg-input border-border">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-popover border-border">
+                        {reportSeverities.map((severity) => (
+                          <SelectItem key={severity} value={severity}>
+                            {reportSeverityLabels[severity]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="requiresManagerSignoff"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4">
+                  <div>
+                    <FormLabel>Manager Sign-off</FormLabel>
+                    <FormDescription>A garage manager must sign off these reports before they are closed</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="repeatAlertWindow"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat Alert</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="bg-input border-border">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="bg-popover border-border">
+                        <SelectItem value={NO_ALERT}>No alert</SelectItem>
+                        {historyWindows.map((days) => (
+                          <SelectItem key={days} value={String(days)}>
+                            Within {historyWindowLabel(days)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Warn when an employee is reported for this repeatedly</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="repeatAlertThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Alert From (reports)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min={2}
+                        disabled={alertWindow === NO_ALERT}
+                        className="bg-input border-border"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="retired"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4">
+                  <div>
+                    <FormLabel>Retired</FormLabel>
+                    <FormDescription>Retired subjects can no longer be chosen for new reports</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const AdminSubjects = () => {
+  const { data: subjects = [], isLoading } = useReportSubjects({ includeRetired: true });
+  // null while adding a new subject, undefined when the dialog is closed
+  const [editing, setEditing] = useState<ReportSubject | null | undefined>(undefined);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-5xl">
+        <AppNav />
+
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-xl font-semibold text-foreground">Report Subjects</CardTitle>
+              <Button size="sm" onClick={() => setEditing(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Subject
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Default Severity</TableHead>
+                  <TableHead>Manager Sign-off</TableHead>
+                  <TableHead>Repeat Alert</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      Loading subjects...
+                    </TableCell>
+                  </TableRow>
+                )}
+                {groupReportSubjects(subjects).map((group) => [
+                  <TableRow key={group.category} className="bg-muted/50 hover:bg-muted/50">
+                    <TableCell colSpan={6} className="font-semibold">{group.label}</TableCell>
+                  </TableRow>,
+                  ...group.subjects.map((subject) => (
+                    <TableRow key={subject.id}>
+                      <TableCell className="font-medium">{subject.name}</TableCell>
+                      <TableCell><ReportSeverityBadge severity={subject.default_severity} /></TableCell>
+                      <TableCell>{subject.requires_manager_signoff ? "Required" : "—"}</TableCell>
+                      <TableCell>
+                        {subject.repeat_alert_threshold && subject.repeat_alert_window_days
+                          ? `${subject.repeat_alert_threshold} in ${historyWindowLabel(subject.repeat_alert_window_days)}`
+                          : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {subject.retired_at ? (
+                          <Badge variant="outline">Retired {format(parseISO(subject.retired_at), "dd MMM yyyy")}</Badge>
+                        ) : (
+                          <Badge variant="secondary">Active</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setEditing(subject)}
+                          aria-label={`Edit ${subject.name}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )),
+                ])}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      {editing !== undefined && <SubjectDialog subject={editing} onClose={() => setEditing(undefined)} />}
+    </div>
+  );
+};
+
+export default AdminSubjects;
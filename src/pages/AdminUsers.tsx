@@ -0,0 +1,177 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AppNav } from "@/components/AppNav";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useGarages } from "@/hooks/use-garages";
+import { rolesQueryKey, useAuth, type AppRole } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import { roleLabels } from "@/lib/access";
+import { cn } from "@/lib/utils";
+
+const allRoles = Constants.public.Enums.app_role;
+
+const AdminUsers = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Inactive garages are only listed when a manager is still assigned to one
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: ["admin", "users"],
+    queryFn: async () => {
+      const [profiles, roles] = await Promise.all([
+        supabase.from("profiles").select("id, email, full_name, home_garage").order("full_name"),
+        supabase.from("user_roles").select("user_id, role, garage"),
+      ]);
+      if (profiles.error) throw profiles.error;
+      if (roles.error) throw roles.error;
+
+      return profiles.data.map((profile) => ({
+        ...profile,
+        roles: roles.data.filter((role) => role.user_id === profile.id).map((role) => role.role),
+        managedGarage: roles.data.find((role) => role.user_id === profile.id && role.role === "garage_manager")?.garage,
+      }));
+    },
+  });
+
+  const isUnassignedManager = (profile: (typeof users)[number]) =>
+    profile.roles.includes("garage_manager") && !profile.managedGarage;
+
+  const refresh = async (userId: string) => {
+    await queryClient.invalidateQueries({ queryKey: ["admin", "users"] });
+    await queryClient.invalidateQueries({ queryKey: rolesQueryKey(userId) });
+  };
+
+  // New garage managers start on their home garage, which the admin can then change
+  const toggleRole = async (userId: string, role: AppRole, granted: boolean, homeGarage: string | null) => {
+    if (granted && role === "garage_manager" && !homeGarage) {
+      toast({
+        variant: "destructive",
+        title: "Garage Required",
+        description: "This user has no home garage. Choose the garage they manage under Manages Garage instead.",
+      });
+      return;
+    }
+
+    const { error } = granted
+      ? await supabase
+          .from("user_roles")
+          .insert({ user_id: userId, role, garage: role === "garage_manager" ? homeGarage : null })
+      : await supabase.from("user_roles").delete().eq("user_id", userId).eq("role", role);
+
+    if (error) {
+      toast({ variant: "destructive", title: "Role Not Updated", description: error.message });
+      return;
+    }
+
+    await refresh(userId);
+  };
+
+  // Choosing a garage for someone who is not yet a manager makes them one
+  const assignGarage = async (userId: string, garage: string, isManager: boolean) => {
+    const { error } = isManager
+      ? await supabase.from("user_roles").update({ garage }).eq("user_id", userId).eq("role", "garage_manager")
+      : await supabase.from("user_roles").insert({ user_id: userId, role: "garage_manager", garage });
+
+    if (error) {
+      toast({ variant: "destructive", title: "Garage Not Assigned", description: error.message });
+      return;
+    }
+
+    await refresh(userId);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-5xl">
+        <AppNav />
+
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section">
+            <CardTitle className="text-xl font-semibold text-foreground">Users and Roles</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Home Garage</TableHead>
+                  <TableHead>Manages Garage</TableHead>
+                  {allRoles.map((role) => (
+                    <TableHead key={role} className="text-center">{roleLabels[role]}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={4 + allRoles.length} className="text-center text-muted-foreground">
+                      Loading users...
+                    </TableCell>
+                  </TableRow>
+                )}
+                {users.map((profile) => (
+                  <TableRow key={profile.id}>
+                    <TableCell className="font-medium">{profile.full_name || "—"}</TableCell>
+                    <TableCell>{profile.email}</TableCell>
+                    <TableCell>{profile.home_garage ?? "—"}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={profile.managedGarage ?? undefined}
+                        onValueChange={(garage) =>
+                          assignGarage(profile.id, garage, profile.roles.includes("garage_manager"))
+                        }
+                      >
+                        <SelectTrigger
+                          className={cn(
+                            "h-8 w-40 bg-input border-border",
+                            isUnassignedManager(profile) && "border-destructive text-destructive"
+                          )}
+                          aria-label={`Garage managed by ${profile.full_name || profile.email}`}
+                        >
+                          <SelectValue placeholder={isUnassignedManager(profile) ? "Not assigned" : "—"} />
+                        </SelectTrigger>
+                        <SelectContent className="bg-popover border-border">
+                          {garages
+                            .filter((garage) => garage.active || garage.name === profile.managedGarage)
+                            .map((garage) => (
+                              <SelectItem key={garage.id} value={garage.name}>
+                                {garage.name}
+                                {!garage.active && " (inactive)"}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      {isUnassignedManager(profile) && (
+                        <p className="mt-1 text-xs text-destructive">Sees no reports until a garage is assigned</p>
+                      )}
+                    </TableCell>
+                    {allRoles.map((role) => (
+                      <TableCell key={role} className="text-center">
+                        <Checkbox
+                          checked={profile.roles.includes(role)}
+                          // Admins cannot remove their own admin role and lock everyone out
+                          disabled={role === "admin" && profile.id === user?.id}
+                          onCheckedChange={(checked) => toggleRole(profile.id, role, checked === true, profile.home_garage)}
+                          aria-label={`${roleLabels[role]} role for ${profile.full_name || profile.email}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminUsers;
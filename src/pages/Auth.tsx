@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useGarages } from "@/hooks/use-garages";
+import { supabase } from "@/integrations/supabase/client";
+import { FIRST_BUS_LOGO_URL } from "@/lib/officials-report";
+
+const emailSchema = z.string().email("Enter a valid email address");
+
+const signInSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, "Password is required"),
+});
+
+const magicLinkSchema = z.object({
+  email: emailSchema,
+});
+
+const signUpSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  fullName: z.string().min(1, "Name is required"),
+  extensionNumber: z.string().min(1, "Extension number is required"),
+  homeGarage: z.string().min(1, "Home garage is required"),
+});
+
+const redirectUrl = () => `${window.location.origin}${import.meta.env.BASE_URL}`;
+
+function SignInForm({ onSignedIn }: { onSignedIn: () => void }) {
+  const { toast } = useToast();
+  const form = useForm<z.infer<typeof signInSchema>>({
+    resolver: zodResolver(signInSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const onSubmit = async ({ email, password }: z.infer<typeof signInSchema>) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) {
+      toast({ variant: "destructive", title: "Sign In Failed", description: error.message });
+      return;
+    }
+    onSignedIn();
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input {...field} type="email" autoComplete="email" className="bg-input border-border" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input {...field} type="password" autoComplete="current-password" className="bg-input border-border" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          Sign In
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function MagicLinkForm() {
+  const { toast } = useToast();
+  const form = useForm<z.infer<typeof magicLinkSchema>>({
+    resolver: zodResolver(magicLinkSchema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async ({ email }: z.infer<typeof magicLinkSchema>) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectUrl(), shouldCreateUser: false },
+    });
+    if (error) {
+      toast({ variant: "destructive", title: "Link Not Sent", description: error.message });
+      return;
+    }
+    toast({ title: "Check Your Email", description: `A sign-in link has been sent to ${email}.` });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input {...field} type="email" autoComplete="email" className="bg-input border-border" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          Email Me a Sign-In Link
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function SignUpForm() {
+  const { toast } = useToast();
+  const { data: garages = [] } = useGarages();
+  const form = useForm<z.infer<typeof signUpSchema>>({
+    resolver: zodResolver(signUpSchema),
+    defaultValues: { email: "", password: "", fullName: "", extensionNumber: "", homeGarage: "" },
+  });
+
+  const onSubmit = async (values: z.infer<typeof signUpSchema>) => {
+    // The handle_new_user trigger copies this metadata into the profile
+    const { error } = await supabase.auth.signUp({
+      email: values.email,
+      password: values.password,
+      options: {
+        emailRedirectTo: redirectUrl(),
+        data: {
+          full_name: values.fullName,
+          extension_number: values.extensionNumber,
+          home_garage: values.homeGarage,
+        },
+      },
+    });
+    if (error) {
+      toast({ variant: "destructive", title: "Account Not Created", description: error.message });
+      return;
+    }
+    toast({
+      title: "Confirm Your Email",
+      description: `Follow the link sent to ${values.email} to finish signing up. An administrator then needs to give your account access.`,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="fullName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Full Name</FormLabel>
+              <FormControl>
+                <Input {...field} autoComplete="name" className="bg-input border-border" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="extensionNumber"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Extension Number</FormLabel>
+              <FormControl>
+                <Input {...field} className="bg-input border-border" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="homeGarage"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Home Garage</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger className="bg-input border-border">
+                    <SelectValue placeholder="Select garage" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent className="bg-popover border-border">
+                  {garages.map((garage) => (
+                    <SelectItem key={garage.id} value={garage.name} className="hover:bg-accent">
+                      {garage.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input {...field} type="email" autoComplete="email" className="bg-input border-border" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input {...field} type="password" autoComplete="new-password" className="bg-input border-border" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          Create Account
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+const Auth = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [tab, setTab] = useState("password");
+  const from = (location.state as { from?: string } | null)?.from ?? "/";
+
+  if (!loading && user) {
+    return <Navigate to={from} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center mb-4">
+            <img src={FIRST_BUS_LOGO_URL} alt="First Bus Logo" className="h-16 w-auto" />
+          </div>
+          <h1 className="text-3xl font-bold text-form-header mb-2">Officials Report</h1>
+          <div className="w-24 h-1 bg-primary mx-auto rounded-full"></div>
+        </div>
+
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section">
+            <CardTitle className="text-xl font-semibold text-foreground">Sign In</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            <Tabs value={tab} onValueChange={setTab}>
+              <TabsList className="grid w-full grid-cols-3 mb-6">
+                <TabsTrigger value="password">Password</TabsTrigger>
+                <TabsTrigger value="magic-link">Email Link</TabsTrigger>
+                <TabsTrigger value="sign-up">New Account</TabsTrigger>
+              </TabsList>
+              <TabsContent value="password">
+                <SignInForm onSignedIn={() => navigate(from, { replace: true })} />
+              </TabsContent>
+              <TabsContent value="magic-link">
+                <MagicLinkForm />
+              </TabsContent>
+              <TabsContent value="sign-up">
+                <SignUpForm />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Auth;
@@ -0,0 +1,180 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { useSearchParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Search, X } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { ChartCard, CountChart, TimelineChart } from "@/components/ReportCharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useGarages } from "@/hooks/use-garages";
+import { useAnalyticsReports } from "@/hooks/use-reports";
+import { useReportSubjects } from "@/hooks/use-report-subjects";
+import {
+  countBy,
+  defaultDashboardFilters,
+  parseDashboardFilters,
+  reportsByHour,
+  reportsOverTime,
+  toDashboardSearchParams,
+  type DashboardFilters,
+} from "@/lib/report-analytics";
+
+// Radix Select does not allow an empty item value, so "all" stands in for no filter
+const ALL = "all";
+
+// Routes and controllers beyond this many are shown together as "Other"
+const TOP_COUNT = 15;
+
+const Dashboard = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchKey = searchParams.toString();
+  const filters = parseDashboardFilters(searchParams);
+  const [draft, setDraft] = useState<DashboardFilters>(filters);
+  const { data: reports = [], isLoading, isError, isFetching } = useAnalyticsReports(filters);
+  // Retired garages and subjects stay reportable for historic ranges
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+  const { data: subjects = [] } = useReportSubjects({ includeRetired: true });
+
+  // Keep the filter inputs in step with back/forward navigation
+  useEffect(() => {
+    setDraft(parseDashboardFilters(new URLSearchParams(searchKey)));
+  }, [searchKey]);
+
+  const applyFilters = (event: FormEvent) => {
+    event.preventDefault();
+    setSearchParams(toDashboardSearchParams(draft));
+  };
+
+  const resetFilters = () => setSearchParams(toDashboardSearchParams(defaultDashboardFilters()));
+
+  const timeline = reportsOverTime(reports, filters, subjects);
+  const range = `${format(parseISO(filters.from), "dd MMM yyyy")} to ${format(parseISO(filters.to), "dd MMM yyyy")}`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-6xl">
+        <AppNav />
+
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-form-header mb-2">Dashboard</h1>
+          <div className="w-24 h-1 bg-primary rounded-full"></div>
+        </div>
+
+        {/* Filters */}
+        <Card className="bg-form-background border-border/50 shadow-lg mb-6">
+          <CardHeader className="bg-form-section">
+            <CardTitle className="text-xl font-semibold text-foreground">Filters</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            <form onSubmit={applyFilters} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="dashboard-from">Incident From</Label>
+                  <Input
+                    id="dashboard-from"
+                    type="date"
+                    required
+                    value={draft.from}
+                    max={draft.to || undefined}
+                    onChange={(event) => setDraft({ ...draft, from: event.target.value })}
+                    className="bg-input border-border"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="dashboard-to">Incident To</Label>
+                  <Input
+                    id="dashboard-to"
+                    type="date"
+                    required
+                    value={draft.to}
+                    min={draft.from || undefined}
+                    onChange={(event) => setDraft({ ...draft, to: event.target.value })}
+                    className="bg-input border-border"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="dashboard-garage">Garage</Label>
+                  <Select
+                    value={draft.garage || ALL}
+                    onValueChange={(value) => setDraft({ ...draft, garage: value === ALL ? "" : value })}
+                  >
+                    <SelectTrigger id="dashboard-garage" className="bg-input border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover border-border">
+                      <SelectItem value={ALL}>All garages</SelectItem>
+                      {garages.map((garage) => (
+                        <SelectItem key={garage.id} value={garage.name}>{garage.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit">
+                  <Search className="mr-2 h-4 w-4" />
+                  Apply Filters
+                </Button>
+                <Button type="button" variant="outline" onClick={resetFilters}>
+                  <X className="mr-2 h-4 w-4" />
+                  Last 4 Weeks
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading && <p className="text-center text-muted-foreground">Loading reports...</p>}
+        {isError && <p className="text-center text-destructive">The reports could not be loaded.</p>}
+
+        {!isLoading && !isError && (
+          <div className={isFetching ? "opacity-60 transition-opacity" : "transition-opacity"}>
+            <p className="mb-6 text-muted-foreground">
+              <span className="text-2xl font-semibold text-foreground">{reports.length}</span>{" "}
+              {reports.length === 1 ? "report" : "reports"} from {range}
+              {filters.garage && ` at ${filters.garage}`}
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <ChartCard
+                title="Reports Over Time"
+                description={timeline.weekly ? "Per week, by subject category" : "Per day, by subject category"}
+                className="lg:col-span-2"
+              >
+                <TimelineChart data={timeline.rows} weekly={timeline.weekly} />
+              </ChartCard>
+
+              <ChartCard title="By Garage">
+                <CountChart data={countBy(reports, (report) => report.garage)} horizontal />
+              </ChartCard>
+
+              <ChartCard title="By Subject">
+                <CountChart data={countBy(reports, (report) => report.subject_of_report)} horizontal />
+              </ChartCard>
+
+              <ChartCard title="By Hour of Day" description="From the time of incident" className="lg:col-span-2">
+                <CountChart data={reportsByHour(reports)} />
+              </ChartCard>
+
+              <ChartCard title="By Route" description={`Top ${TOP_COUNT} routes`}>
+                <CountChart data={countBy(reports, (report) => report.route, TOP_COUNT)} horizontal />
+              </ChartCard>
+
+              <ChartCard title="By Controller" description={`Top ${TOP_COUNT} controllers`}>
+                <CountChart data={countBy(reports, (report) => report.controller_name, TOP_COUNT)} horizontal />
+              </ChartCard>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,214 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Search, X } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { ChartCard } from "@/components/ReportCharts";
+import { HeatmapReportsDialog, ReportHeatmap } from "@/components/ReportHeatmap";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useGarages } from "@/hooks/use-garages";
+import { useHeatmapCounts } from "@/hooks/use-reports";
+import { useReportSubjects } from "@/hooks/use-report-subjects";
+import { defaultDashboardFilters } from "@/lib/report-analytics";
+import {
+  HEATMAP_DEFAULT_DAYS,
+  dayHourGrid,
+  parseHeatmapFilters,
+  routeHourGrid,
+  toHeatmapSearchParams,
+  type HeatmapCell,
+  type HeatmapFilters,
+} from "@/lib/report-heatmap";
+import { groupReportSubjects } from "@/lib/report-subjects";
+
+// Radix Select does not allow an empty item value, so "all" stands in for no filter
+const ALL = "all";
+
+// Quieter routes beyond this many are left off the route heatmap
+const TOP_ROUTES = 25;
+
+const Heatmap = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchKey = searchParams.toString();
+  const filters = parseHeatmapFilters(searchParams);
+  const [draft, setDraft] = useState<HeatmapFilters>(filters);
+  const [selected, setSelected] = useState<{ cell: HeatmapCell; count: number } | null>(null);
+  const { data: counts = [], isLoading, isError, isFetching } = useHeatmapCounts(filters);
+  // Retired garages and subjects stay reportable for historic ranges
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+  const { data: subjects = [] } = useReportSubjects({ includeRetired: true });
+
+  // Keep the filter inputs in step with back/forward navigation
+  useEffect(() => {
+    setDraft(parseHeatmapFilters(new URLSearchParams(searchKey)));
+  }, [searchKey]);
+
+  const applyFilters = (event: FormEvent) => {
+    event.preventDefault();
+    setSearchParams(toHeatmapSearchParams(draft));
+  };
+
+  const resetFilters = () =>
+    setSearchParams(toHeatmapSearchParams({ ...defaultDashboardFilters(HEATMAP_DEFAULT_DAYS), subject: "" }));
+
+  const routes = routeHourGrid(counts, TOP_ROUTES);
+  const days = dayHourGrid(counts);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-6xl">
+        <AppNav />
+
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-form-header mb-2">Heatmap</h1>
+          <div className="w-24 h-1 bg-primary rounded-full"></div>
+        </div>
+
+        {/* Filters */}
+        <Card className="bg-form-background border-border/50 shadow-lg mb-6">
+          <CardHeader className="bg-form-section">
+            <CardTitle className="text-xl font-semibold text-foreground">Filters</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            <form onSubmit={applyFilters} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="heatmap-from">Incident From</Label>
+                  <Input
+                    id="heatmap-from"
+                    type="date"
+                    required
+                    value={draft.from}
+                    max={draft.to || undefined}
+                    onChange={(event) => setDraft({ ...draft, from: event.target.value })}
+                    className="bg-input border-border"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="heatmap-to">Incident To</Label>
+                  <Input
+                    id="heatmap-to"
+                    type="date"
+                    required
+                    value={draft.to}
+                    min={draft.from || undefined}
+                    onChange={(event) => setDraft({ ...draft, to: event.target.value })}
+                    className="bg-input border-border"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="heatmap-garage">Garage</Label>
+                  <Select
+                    value={draft.garage || ALL}
+                    onValueChange={(value) => setDraft({ ...draft, garage: value === ALL ? "" : value })}
+                  >
+                    <SelectTrigger id="heatmap-garage" className="bg-input border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover border-border">
+                      <SelectItem value={ALL}>All garages</SelectItem>
+                      {garages.map((garage) => (
+                        <SelectItem key={garage.id} value={garage.name}>{garage.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="heatmap-subject">Subject of Report</Label>
+                  <Select
+                    value={draft.subject || ALL}
+                    onValueChange={(value) => setDraft({ ...draft, subject: value === ALL ? "" : value })}
+                  >
+                    <SelectTrigger id="heatmap-subject" className="bg-input border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover border-border">
+                      <SelectItem value={ALL}>All subjects</SelectItem>
+                      {groupReportSubjects(subjects).map((group) => (
+                        <SelectGroup key={group.category}>
+                          <SelectLabel>{group.label}</SelectLabel>
+                          {group.subjects.map((subject) => (
+                            <SelectItem key={subject.id} value={subject.name}>
+                              {subject.name}
+                              {subject.retired_at && " (retired)"}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit">
+                  <Search className="mr-2 h-4 w-4" />
+                  Apply Filters
+                </Button>
+                <Button type="button" variant="outline" onClick={resetFilters}>
+                  <X className="mr-2 h-4 w-4" />
+                  Last 12 Weeks
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading && <p className="text-center text-muted-foreground">Loading heatmap...</p>}
+        {isError && <p className="text-center text-destructive">The heatmap could not be loaded.</p>}
+
+        {!isLoading && !isError && (
+          <div className={isFetching ? "space-y-6 opacity-60 transition-opacity" : "space-y-6 transition-opacity"}>
+            <p className="text-sm text-muted-foreground">
+              Counts cover every report matching the filters, by time of incident, including reports not shared with
+              you. Select a cell to see the reports behind it.
+            </p>
+
+            <ChartCard title="Route by Hour" description={`The ${TOP_ROUTES} routes with the most reports`}>
+              <ReportHeatmap
+                grid={routes}
+                rowHeading="Route"
+                onSelect={(row, hour) => setSelected({ cell: { route: row.key, hour }, count: row.hours[hour] })}
+              />
+            </ChartCard>
+
+            <ChartCard title="Day of Week by Hour">
+              <ReportHeatmap
+                grid={days}
+                rowHeading="Day"
+                onSelect={(row, hour) =>
+                  setSelected({ cell: { dayOfWeek: Number(row.key), hour }, count: row.hours[hour] })
+                }
+              />
+            </ChartCard>
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <HeatmapReportsDialog
+          filters={filters}
+          cell={selected.cell}
+          count={selected.count}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Heatmap;
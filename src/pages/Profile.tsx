@@ -0,0 +1,139 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQueryClient } from "@tanstack/react-query";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { AppNav } from "@/components/AppNav";
+import { useToast } from "@/hooks/use-toast";
+import { profileQueryKey, useAuth } from "@/hooks/use-auth";
+import { useGarages } from "@/hooks/use-garages";
+import { supabase } from "@/integrations/supabase/client";
+
+const profileSchema = z.object({
+  fullName: z.string().min(1, "Name is required"),
+  extensionNumber: z.string().min(1, "Extension number is required"),
+  homeGarage: z.string().min(1, "Home garage is required"),
+});
+
+type ProfileFormData = z.infer<typeof profileSchema>;
+
+const Profile = () => {
+  const { user, profile } = useAuth();
+  const { data: garages = [] } = useGarages();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: { fullName: "", extensionNumber: "", homeGarage: "" },
+  });
+
+  useEffect(() => {
+    if (profile) {
+      form.reset({
+        fullName: profile.full_name,
+        extensionNumber: profile.extension_number,
+        homeGarage: profile.home_garage ?? "",
+      });
+    }
+  }, [profile, form]);
+
+  const onSubmit = async (values: ProfileFormData) => {
+    const { error } = await supabase
+      .from("profiles")
+      .update({
+        full_name: values.fullName,
+        extension_number: values.extensionNumber,
+        home_garage: values.homeGarage,
+      })
+      .eq("id", user!.id);
+
+    if (error) {
+      toast({ variant: "destructive", title: "Profile Not Saved", description: error.message });
+      return;
+    }
+
+    await queryClient.invalidateQueries({ queryKey: profileQueryKey(user!.id) });
+    toast({ title: "Profile Saved", description: "New reports will use these details." });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-2xl">
+        <AppNav />
+
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section">
+            <CardTitle className="text-xl font-semibold text-foreground">Controller Profile</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="fullName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-foreground font-medium">Full Name *</FormLabel>
+                      <FormControl>
+                        <Input {...field} className="bg-input border-border" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="extensionNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-foreground font-medium">Extension Number *</FormLabel>
+                      <FormControl>
+                        <Input {...field} className="bg-input border-border" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="homeGarage"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-foreground font-medium">Home Garage *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="bg-input border-border">
+                            <SelectValue placeholder="Select garage" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-popover border-border">
+                          {garages.map((garage) => (
+                            <SelectItem key={garage.id} value={garage.name} className="hover:bg-accent">
+                              {garage.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  Save Profile
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,177 @@
+import { Link, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { useState } from "react";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { CctvRequestCard } from "@/components/CctvRequest";
+import { EmployeeHistoryCard } from "@/components/EmployeeHistory";
+import { ReportAccounts } from "@/components/EmployeeStatement";
+import { LimitedSharingNotice } from "@/components/LimitedSharingNotice";
+import { AddAttachments, AttachmentGallery } from "@/components/ReportAttachments";
+import { ReportSections } from "@/components/ReportSections";
+import { ReportStatusBadge } from "@/components/ReportStatusBadge";
+import { ReportWorkflow } from "@/components/ReportWorkflow";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useGarages } from "@/hooks/use-garages";
+import { useEmployeeStatement, useReport, useReportAttachments, useReportWitnesses } from "@/hooks/use-reports";
+import { storedToDocumentAttachment } from "@/lib/attachments";
+import { getGarageShortcut } from "@/lib/garages";
+import { FIRST_BUS_LOGO_URL } from "@/lib/officials-report";
+import { renderReport } from "@/lib/report-formats";
+import { fromReportRecord } from "@/lib/reports";
+import { cn, downloadFile } from "@/lib/utils";
+
+const ReportDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  // Employee statements are for the garage and hub only
+  const isReviewer = hasRole("garage_manager", "hub_leader", "admin");
+  const { data: report, isLoading, isError } = useReport(id);
+  const { data: attachments = [] } = useReportAttachments(id);
+  const { data: witnesses = [] } = useReportWitnesses(id);
+  const { data: statement = null } = useEmployeeStatement(id, isReviewer);
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+  const [downloading, setDownloading] = useState(false);
+
+  // The PDF embeds photo attachments, so it is built here rather than printed
+  const downloadPdf = async () => {
+    if (!report) return;
+    setDownloading(true);
+    try {
+      const data = fromReportRecord(report, witnesses);
+      const { blob, filename } = await renderReport("pdf", {
+        data,
+        reference: report.reference,
+        garageCode: getGarageShortcut(data.garage, garages),
+        attachments: attachments.map(storedToDocumentAttachment),
+        employeeStatement: statement
+          ? {
+              statement: statement.statement,
+              givenAt: parseISO(statement.given_at),
+              recordedBy: statement.recorded_by_name ?? undefined,
+            }
+          : undefined,
+      });
+      downloadFile(blob, filename);
+    } catch (error) {
+      console.error("Failed to create report:", error);
+      toast({
+        variant: "destructive",
+        title: "Report Not Created",
+        description: "The PDF report could not be generated. Please try again.",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background print:bg-white">
+      {/* Repeated at the top of every printed page */}
+      <LimitedSharingNotice className="hidden print:block print:fixed print:inset-x-0 print:top-0 print:p-2" />
+
+      <div className="container mx-auto py-8 px-4 max-w-4xl print:max-w-none print:p-0 print:pt-14">
+        <AppNav />
+
+        <div className="flex items-center justify-between mb-6 print:hidden">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/reports">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Reports
+            </Link>
+          </Button>
+          {report && (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={downloadPdf} disabled={downloading}>
+                <Download className="mr-2 h-4 w-4" />
+                {downloading ? "Creating PDF..." : "Download PDF"}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => window.print()}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {isLoading && <p className="text-center text-muted-foreground">Loading report...</p>}
+        {isError && <p className="text-center text-destructive">The report could not be loaded.</p>}
+        {!isLoading && !isError && !report && (
+          <p className="text-center text-muted-foreground">
+            This report does not exist or you do not have permission to view it.
+          </p>
+        )}
+
+        {report && (
+          <>
+            {/* Header with Logo */}
+            <div className="text-center mb-8 print:mb-4">
+              <div className="flex items-center justify-center mb-4">
+                <img src={FIRST_BUS_LOGO_URL} alt="First Bus Logo" className="h-16 w-auto print:h-12" />
+              </div>
+              <h1 className="text-4xl font-bold text-form-header mb-2 print:text-3xl">Officials Report</h1>
+              <p className="text-lg text-muted-foreground">{report.reference}</p>
+            </div>
+
+            <Card className="bg-form-background border-border/50 shadow-lg mb-8 print:shadow-none print:mb-4">
+              <CardContent className="p-6 print:p-4">
+                <dl className="grid grid-cols-1 sm:grid-cols-3 print:grid-cols-3 gap-4">
+                  <div>
+                    <dt className="text-sm font-medium text-muted-foreground">Submitted By</dt>
+                    <dd className="mt-1">{report.controller_name}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-muted-foreground">Submitted At</dt>
+                    <dd className="mt-1">{format(parseISO(report.created_at), "PPP p")}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-muted-foreground">Status</dt>
+                    <dd className="mt-1"><ReportStatusBadge status={report.status} /></dd>
+                  </div>
+                </dl>
+              </CardContent>
+            </Card>
+
+            <ReportSections data={fromReportRecord(report, witnesses)} />
+
+            <EmployeeHistoryCard report={report} className="mt-8 print:mt-4" />
+
+            {isReviewer && <ReportAccounts report={report} statement={statement} className="mt-8 print:mt-4" />}
+
+            {/* Printed only when there is something to show */}
+            <Card
+              className={cn(
+                "bg-form-background border-border/50 shadow-lg mt-8 print:shadow-none print:mt-4 print:break-inside-avoid",
+                attachments.length === 0 && "print:hidden"
+              )}
+            >
+              <CardHeader className="bg-form-section print:py-3">
+                <CardTitle className="text-xl font-semibold text-foreground">Attachments</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6 p-6 print:p-4">
+                {attachments.length > 0 && <AttachmentGallery attachments={attachments} />}
+                <div className="print:hidden">
+                  <AddAttachments reportId={report.id} stored={attachments.length} />
+                </div>
+              </CardContent>
+            </Card>
+
+            <CctvRequestCard report={report} className="mt-8 print:mt-4" />
+
+            <div className="mt-8 print:mt-4">
+              <ReportWorkflow report={report} />
+            </div>
+
+            <LimitedSharingNotice className="mt-8 print:hidden" />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportDetail;
@@ -0,0 +1,366 @@
+import { useEffect, useState, type FormEvent, type MouseEvent } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { ArrowDown, ArrowUp, ArrowUpDown, Search, X } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { ReportSeverityBadge } from "@/components/ReportSeverityBadge";
+import { ReportStatusBadge } from "@/components/ReportStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { useGarages } from "@/hooks/use-garages";
+import { useReports } from "@/hooks/use-reports";
+import { useReportSubjects } from "@/hooks/use-report-subjects";
+import {
+  REPORTS_PAGE_SIZE,
+  defaultReportFilters,
+  parseReportFilters,
+  reportSortColumns,
+  toReportSearchParams,
+  type ReportFilters,
+  type ReportSortColumn,
+} from "@/lib/report-filters";
+import { reportStatusLabels, reportStatuses } from "@/lib/report-status";
+import { groupReportSubjects } from "@/lib/report-subjects";
+
+// Radix Select does not allow an empty item value, so "all" stands in for no filter
+const ALL = "all";
+
+// Page numbers to show, with null marking a gap
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const sorted = [...pages].filter((p) => p >= 1 && p <= pageCount).sort((a, b) => a - b);
+  return sorted.flatMap((p, index) => (index > 0 && p - sorted[index - 1] > 1 ? [null, p] : [p]));
+};
+
+interface SortableHeadProps {
+  column: ReportSortColumn;
+  filters: ReportFilters;
+  onSort: (column: ReportSortColumn) => void;
+}
+
+function SortableHead({ column, filters, onSort }: SortableHeadProps) {
+  const Icon = filters.sort !== column ? ArrowUpDown : filters.ascending ? ArrowUp : ArrowDown;
+  return (
+    <TableHead>
+      <button
+        type="button"
+        onClick={() => onSort(column)}
+        className="inline-flex items-center gap-1 font-medium hover:text-foreground"
+      >
+        {reportSortColumns[column]}
+        <Icon className="h-3 w-3" />
+      </button>
+    </TableHead>
+  );
+}
+
+const Reports = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseReportFilters(searchParams);
+  const [draft, setDraft] = useState<ReportFilters>(filters);
+  const { data, isLoading, isError, isFetching } = useReports(filters);
+  // Retired garages stay filterable for historic reports
+  const { data: garages = [] } = useGarages({ includeInactive: true });
+  const { data: subjects = [] } = useReportSubjects({ includeRetired: true });
+
+  // Keep the filter inputs in step with back/forward navigation
+  const searchKey = searchParams.toString();
+  useEffect(() => {
+    setDraft(parseReportFilters(new URLSearchParams(searchKey)));
+  }, [searchKey]);
+
+  const updateFilters = (changes: Partial<ReportFilters>) => {
+    setSearchParams(toReportSearchParams({ ...filters, ...changes }));
+  };
+
+  const applyFilters = (event: FormEvent) => {
+    event.preventDefault();
+    updateFilters({ ...draft, sort: filters.sort, ascending: filters.ascending, page: 1 });
+  };
+
+  const clearFilters = () => {
+    setSearchParams(toReportSearchParams({ ...defaultReportFilters, sort: filters.sort, ascending: filters.ascending }));
+  };
+
+  const toggleSort = (column: ReportSortColumn) => {
+    updateFilters({
+      sort: column,
+      ascending: filters.sort === column ? !filters.ascending : false,
+      page: 1,
+    });
+  };
+
+  const pageCount = Math.max(1, Math.ceil((data?.total ?? 0) / REPORTS_PAGE_SIZE));
+
+  const goToPage = (page: number) => (event: MouseEvent) => {
+    event.preventDefault();
+    if (page >= 1 && page <= pageCount) updateFilters({ page });
+  };
+
+  const pageHref = (page: number) => `?${toReportSearchParams({ ...filters, page })}`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-6xl">
+        <AppNav />
+
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-form-header mb-2">Reports</h1>
+          <div className="w-24 h-1 bg-primary rounded-full"></div>
+        </div>
+
+        {/* Filters */}
+        <Card className="bg-form-background border-border/50 shadow-lg mb-6">
+          <CardHeader className="bg-form-section">
+            <CardTitle className="text-xl font-semibold text-foreground">Filters</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            <form onSubmit={applyFilters} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="filter-garage">Garage</Label>
+                  <Select
+                    value={draft.garage || ALL}
+                    onValueChange={(value) => setDraft({ ...draft, garage: value === ALL ? "" : value })}
+                  >
+                    <SelectTrigger id="filter-garage" className="bg-input border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover border-border">
+                      <SelectItem value={ALL}>All garages</SelectItem>
+                      {garages.map((garage) => (
+                        <SelectItem key={garage.id} value={garage.name}>{garage.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="filter-route">Route</Label>
+                  <Input
+                    id="filter-route"
+                    value={draft.route}
+                    onChange={(event) => setDraft({ ...draft, route: event.target.value })}
+                    className="bg-input border-border"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="filter-subject">Subject of Report</Label>
+                  <Select
+                    value={draft.subject || ALL}
+                    onValueChange={(value) => setDraft({ ...draft, subject: value === ALL ? "" : value })}
+                  >
+                    <SelectTrigger id="filter-subject" className="bg-input border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover border-border">
+                      <SelectItem value={ALL}>All subjects</SelectItem>
+                      {groupReportSubjects(subjects).map((group) => (
+                        <SelectGroup key={group.category}>
+                          <SelectLabel>{group.label}</SelectLabel>
+                          {group.subjects.map((subject) => (
+                            <SelectItem key={subject.id} value={subject.name}>
+                              {subject.name}
+                              {subject.retired_at && " (retired)"}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="filter-from">Incident From</Label>
+                  <Input
+                    id="filter-from"
+                    type="date"
+                    value={draft.from}
+                    max={draft.to || undefined}
+                    onChange={(event) => setDraft({ ...draft, from: event.target.value })}
+                    className="bg-input border-border"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="filter-to">Incident To</Label>
+                  <Input
+                    id="filter-to"
+                    type="date"
+                    value={draft.to}
+                    min={draft.from || undefined}
+                    onChange={(event) => setDraft({ ...draft, to: event.target.value })}
+                    className="bg-input border-border"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="filter-employee">Employee Number</Label>
+                  <Input
+                    id="filter-employee"
+                    value={draft.employeeNumber}
+                    onChange={(event) => setDraft({ ...draft, employeeNumber: event.target.value })}
+                    className="bg-input border-border"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="filter-status">Status</Label>
+                  <Select
+                    value={draft.status || ALL}
+                    onValueChange={(value) => setDraft({ ...draft, status: value === ALL ? "" : value })}
+                  >
+                    <SelectTrigger id="filter-status" className="bg-input border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover border-border">
+                      <SelectItem value={ALL}>All statuses</SelectItem>
+                      {reportStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>{reportStatusLabels[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit">
+                  <Search className="mr-2 h-4 w-4" />
+                  Apply Filters
+                </Button>
+                <Button type="button" variant="outline" onClick={clearFilters}>
+                  <X className="mr-2 h-4 w-4" />
+                  Clear
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference</TableHead>
+                  <SortableHead column="date_of_incident" filters={filters} onSort={toggleSort} />
+                  <SortableHead column="garage" filters={filters} onSort={toggleSort} />
+                  <SortableHead column="route" filters={filters} onSort={toggleSort} />
+                  <SortableHead column="employee_number" filters={filters} onSort={toggleSort} />
+                  <SortableHead column="subject_of_report" filters={filters} onSort={toggleSort} />
+                  <SortableHead column="severity" filters={filters} onSort={toggleSort} />
+                  <SortableHead column="status" filters={filters} onSort={toggleSort} />
+                  <SortableHead column="created_at" filters={filters} onSort={toggleSort} />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">Loading reports...</TableCell>
+                  </TableRow>
+                )}
+                {isError && (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-destructive">The reports could not be loaded.</TableCell>
+                  </TableRow>
+                )}
+                {data?.reports.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">No reports match these filters.</TableCell>
+                  </TableRow>
+                )}
+                {data?.reports.map((report) => (
+                  <TableRow key={report.id} className={isFetching ? "opacity-60" : undefined}>
+                    <TableCell className="font-medium">
+                      <Link to={`/reports/${report.id}`} className="text-primary hover:underline">
+                        {report.reference}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {format(parseISO(report.date_of_incident), "dd MMM yyyy")}
+                      <span className="block text-xs text-muted-foreground">{report.time_of_incident.slice(0, 5)}</span>
+                    </TableCell>
+                    <TableCell>{report.garage}</TableCell>
+                    <TableCell>{report.route}</TableCell>
+                    <TableCell>
+                      {report.employee_number}
+                      <span className="block text-xs text-muted-foreground">{report.employee_name}</span>
+                    </TableCell>
+                    <TableCell>{report.subject_of_report}</TableCell>
+                    <TableCell>{report.severity ? <ReportSeverityBadge severity={report.severity} /> : "—"}</TableCell>
+                    <TableCell><ReportStatusBadge status={report.status} /></TableCell>
+                    <TableCell>{format(parseISO(report.created_at), "dd MMM yyyy HH:mm")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {data && data.total > 0 && (
+          <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mt-6">
+            <p className="text-sm text-muted-foreground">
+              Showing {(filters.page - 1) * REPORTS_PAGE_SIZE + 1}–{Math.min(filters.page * REPORTS_PAGE_SIZE, data.total)} of {data.total} reports
+            </p>
+            <Pagination className="mx-0 w-auto">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href={pageHref(filters.page - 1)}
+                    onClick={goToPage(filters.page - 1)}
+                    aria-disabled={filters.page <= 1}
+                    className={filters.page <= 1 ? "pointer-events-none opacity-50" : undefined}
+                  />
+                </PaginationItem>
+                {visiblePages(filters.page, pageCount).map((page, index) => (
+                  <PaginationItem key={page ?? `gap-${index}`}>
+                    {page === null ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink href={pageHref(page)} onClick={goToPage(page)} isActive={page === filters.page}>
+                        {page}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext
+                    href={pageHref(filters.page + 1)}
+                    onClick={goToPage(filters.page + 1)}
+                    aria-disabled={filters.page >= pageCount}
+                    className={filters.page >= pageCount ? "pointer-events-none opacity-50" : undefined}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Reports;
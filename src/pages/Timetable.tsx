@@ -0,0 +1,110 @@
+import { useState, type ChangeEvent } from "react";
+import { format, parseISO } from "date-fns";
+import { Trash2, Upload } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useClearTimetable, useImportTimetable, useTimetable } from "@/hooks/use-timetable";
+
+const Timetable = () => {
+  const { toast } = useToast();
+  const { data: timetable, isLoading } = useTimetable();
+  const importTimetable = useImportTimetable();
+  const clearTimetable = useClearTimetable();
+  const [file, setFile] = useState<File | null>(null);
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => setFile(event.target.files?.[0] ?? null);
+
+  const handleImport = async () => {
+    if (!file) return;
+    try {
+      const imported = await importTimetable.mutateAsync(file);
+      toast({
+        title: "Timetable Imported",
+        description: `${imported.trips.length} journeys imported from ${imported.name}.`,
+      });
+      setFile(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The timetable could not be imported.",
+      });
+    }
+  };
+
+  const routeCount = new Set(timetable?.trips.map((trip) => trip.routeNumber)).size;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4 max-w-2xl">
+        <AppNav />
+
+        <Card className="bg-form-background border-border/50 shadow-lg">
+          <CardHeader className="bg-form-section">
+            <CardTitle className="text-xl font-semibold text-foreground">Timetable</CardTitle>
+            <CardDescription>
+              A GTFS timetable lets the report form suggest running, duty and trip numbers and termini, and flag
+              numbers that do not match the schedule. It is stored on this device only. TransXChange files need
+              converting to GTFS first.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 space-y-6">
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading timetable...</p>
+            ) : timetable ? (
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                  <dt className="text-muted-foreground">File</dt>
+                  <dd>{timetable.name}</dd>
+                  <dt className="text-muted-foreground">Imported</dt>
+                  <dd>{format(parseISO(timetable.importedAt), "PPP p")}</dd>
+                  <dt className="text-muted-foreground">Routes</dt>
+                  <dd>{routeCount}</dd>
+                  <dt className="text-muted-foreground">Journeys</dt>
+                  <dd>{timetable.trips.length}</dd>
+                </dl>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => clearTimetable.mutate()}
+                  disabled={clearTimetable.isPending}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Remove
+                </Button>
+              </div>
+            ) : (
+              <p className="text-muted-foreground">No timetable has been imported on this device.</p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="timetable-file">GTFS File (.zip)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="timetable-file"
+                  type="file"
+                  accept=".zip,application/zip"
+                  onChange={handleFile}
+                  className="bg-input border-border"
+                />
+                <Button onClick={handleImport} disabled={!file || importTimetable.isPending}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  {importTimetable.isPending ? "Importing..." : "Import"}
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Only routes in the route list are kept. Importing replaces the current timetable.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Timetable;
@@ -0,0 +1,103 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  // Base64 encoded file content
+  content: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<{ messageId?: string }>;
+}
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`Missing environment variable ${name}`);
+  return value;
+};
+
+// Plain SMTP, e.g. the Inbucket catcher that ships with `supabase start`
+// (SMTP_HOST=host.docker.internal, SMTP_PORT=54325) or a relay in production.
+const createSmtpTransport = (): MailTransport => ({
+  async send(message) {
+    const username = Deno.env.get("SMTP_USERNAME");
+    const client = new SMTPClient({
+      connection: {
+        hostname: requireEnv("SMTP_HOST"),
+        port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+        tls: Deno.env.get("SMTP_TLS") === "true",
+        auth: username ? { username, password: requireEnv("SMTP_PASSWORD") } : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: requireEnv("MAIL_FROM"),
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        attachments: message.attachments.map((attachment) => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          encoding: "base64" as const,
+          content: attachment.content,
+        })),
+      });
+    } finally {
+      await client.close();
+    }
+
+    return {};
+  },
+});
+
+const createResendTransport = (): MailTransport => ({
+  async send(message) {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${requireEnv("RESEND_API_KEY")}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: requireEnv("MAIL_FROM"),
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        attachments: message.attachments.map((attachment) => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          content_type: attachment.contentType,
+        })),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend rejected the message: ${response.status} ${await response.text()}`);
+    }
+
+    const { id } = await response.json();
+    return { messageId: id };
+  },
+});
+
+const transports: Record<string, () => MailTransport> = {
+  smtp: createSmtpTransport,
+  resend: createResendTransport,
+};
+
+// Selected with MAIL_TRANSPORT so local development can point at an SMTP catcher.
+export const createMailTransport = (): MailTransport => {
+  const name = Deno.env.get("MAIL_TRANSPORT") ?? "smtp";
+  const factory = transports[name];
+  if (!factory) throw new Error(`Unknown mail transport "${name}"`);
+  return factory();
+};
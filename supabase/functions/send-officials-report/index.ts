@@ -0,0 +1,100 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.51.0";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createMailTransport } from "../_shared/mail.ts";
+
+const HUB_LEADERS_ADDRESS = "FWOCC-HubLeaders@firstbuslondon.co.uk";
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+interface SendReportRequest {
+  reportId: string;
+  attachment: {
+    filename: string;
+    contentType: string;
+    content: string;
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let body: SendReportRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ status: "failed", error: "Request body must be JSON" }, 400);
+  }
+
+  const { reportId, attachment } = body ?? {};
+  if (!reportId || !attachment?.filename || !attachment?.content) {
+    return jsonResponse({ status: "failed", error: "reportId and attachment are required" }, 400);
+  }
+  if (attachment.content.length * 0.75 > MAX_ATTACHMENT_BYTES) {
+    return jsonResponse({ status: "failed", error: "Attachment is too large" }, 413);
+  }
+
+  // Only reports that were actually stored can be emailed, so the function
+  // cannot be used to relay arbitrary mail. The caller's token is forwarded
+  // so row level security limits this to reports they are allowed to see.
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } },
+  );
+  const { data: report, error } = await supabase
+    .from("officials_reports")
+    .select("reference, employee_number, garage, subject_of_report")
+    .eq("id", reportId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load report:", error);
+    return jsonResponse({ status: "failed", error: "Could not load the report" }, 500);
+  }
+  if (!report) {
+    return jsonResponse({ status: "failed", error: "Report not found" }, 404);
+  }
+
+  // The hub leaders get every report; a garage can also have its own inbox copied in.
+  const { data: garage } = await supabase
+    .from("garages")
+    .select("default_recipient_email")
+    .eq("name", report.garage)
+    .maybeSingle();
+  const recipients = [HUB_LEADERS_ADDRESS];
+  const garageRecipient = garage?.default_recipient_email?.trim();
+  if (garageRecipient && garageRecipient.toLowerCase() !== HUB_LEADERS_ADDRESS.toLowerCase()) {
+    recipients.push(garageRecipient);
+  }
+
+  try {
+    const { messageId } = await createMailTransport().send({
+      to: recipients,
+      subject: `Officials Report ${report.reference}`,
+      text: [
+        `Officials Report ${report.reference} has been submitted.`,
+        "",
+        `Garage: ${report.garage}`,
+        `Employee Number: ${report.employee_number}`,
+        `Subject of Report: ${report.subject_of_report}`,
+        "",
+        "The full report is attached.",
+        "",
+        "LIMITED SHARING - This report contains sensitive information and should only be shared with authorized personnel.",
+      ].join("\n"),
+      attachments: [
+        {
+          filename: attachment.filename,
+          contentType: attachment.contentType || "application/octet-stream",
+          content: attachment.content,
+        },
+      ],
+    });
+
+    return jsonResponse({ status: "sent", messageId });
+  } catch (sendError) {
+    console.error("Failed to send report email:", sendError);
+    return jsonResponse({ status: "failed", error: "The email could not be delivered" }, 502);
+  }
+});
@@ -0,0 +1,65 @@
+-- Officials reports submitted through the Officials Report Form.
+create sequence public.officials_report_reference_seq;
+
+create table public.officials_reports (
+  id uuid primary key default gen_random_uuid(),
+  reference text not null unique default (
+    'OR-' || to_char(now() at time zone 'Europe/London', 'YYYY') || '-' ||
+    lpad(nextval('public.officials_report_reference_seq')::text, 6, '0')
+  ),
+  employee_name text not null,
+  employee_number text not null,
+  garage text not null,
+  route text not null,
+  date_of_report date not null,
+  running_number text not null,
+  date_of_incident date not null,
+  duty_number text not null,
+  time_of_incident time not null,
+  trip_number text not null,
+  location text not null,
+  fleet_number text not null,
+  travelling_from text not null,
+  destination text not null,
+  subject_of_report text not null,
+  details_of_incident text not null check (char_length(details_of_incident) >= 10),
+  controller_name text not null,
+  extension_number text not null,
+  created_at timestamptz not null default now()
+);
+
+alter sequence public.officials_report_reference_seq owned by public.officials_reports.reference;
+
+create index officials_reports_garage_idx on public.officials_reports (garage);
+create index officials_reports_date_of_incident_idx on public.officials_reports (date_of_incident);
+create index officials_reports_employee_number_idx on public.officials_reports (employee_number);
+
+-- No table policies yet: clients cannot read or write the table directly and
+-- reports are only created through submit_officials_report below.
+alter table public.officials_reports enable row level security;
+
+create function public.submit_officials_report(report jsonb)
+returns table (id uuid, reference text)
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.officials_reports (
+    employee_name, employee_number, garage, route,
+    date_of_report, running_number, date_of_incident, duty_number,
+    time_of_incident, trip_number, location, fleet_number,
+    travelling_from, destination, subject_of_report, details_of_incident,
+    controller_name, extension_number
+  )
+  select
+    r.employee_name, r.employee_number, r.garage, r.route,
+    r.date_of_report, r.running_number, r.date_of_incident, r.duty_number,
+    r.time_of_incident, r.trip_number, r.location, r.fleet_number,
+    r.travelling_from, r.destination, r.subject_of_report, r.details_of_incident,
+    r.controller_name, r.extension_number
+  from jsonb_populate_record(null::public.officials_reports, report) as r
+  returning officials_reports.id, officials_reports.reference;
+$$;
+
+revoke all on function public.submit_officials_report(jsonb) from public;
+grant execute on function public.submit_officials_report(jsonb) to anon, authenticated;
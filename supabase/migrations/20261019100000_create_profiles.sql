@@ -0,0 +1,88 @@
+-- Controller profiles, one per auth user, used to prefill the Controller Information card.
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  full_name text not null default '',
+  extension_number text not null default '',
+  home_garage text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "Users can view their own profile"
+  on public.profiles for select
+  to authenticated
+  using (auth.uid() = id);
+
+create policy "Users can update their own profile"
+  on public.profiles for update
+  to authenticated
+  using (auth.uid() = id)
+  with check (auth.uid() = id);
+
+create function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger profiles_set_updated_at
+  before update on public.profiles
+  for each row execute function public.set_updated_at();
+
+-- Sign-up stores the profile fields in the user metadata; copy them across.
+create function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, full_name, extension_number, home_garage)
+  values (
+    new.id,
+    coalesce(new.raw_user_meta_data ->> 'full_name', ''),
+    coalesce(new.raw_user_meta_data ->> 'extension_number', ''),
+    new.raw_user_meta_data ->> 'home_garage'
+  );
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Record who submitted each report.
+alter table public.officials_reports
+  add column submitted_by uuid references auth.users (id) on delete set null;
+
+create index officials_reports_submitted_by_idx on public.officials_reports (submitted_by);
+
+create or replace function public.submit_officials_report(report jsonb)
+returns table (id uuid, reference text)
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.officials_reports (
+    employee_name, employee_number, garage, route,
+    date_of_report, running_number, date_of_incident, duty_number,
+    time_of_incident, trip_number, location, fleet_number,
+    travelling_from, destination, subject_of_report, details_of_incident,
+    controller_name, extension_number, submitted_by
+  )
+  select
+    r.employee_name, r.employee_number, r.garage, r.route,
+    r.date_of_report, r.running_number, r.date_of_incident, r.duty_number,
+    r.time_of_incident, r.trip_number, r.location, r.fleet_number,
+    r.travelling_from, r.destination, r.subject_of_report, r.details_of_incident,
+    r.controller_name, r.extension_number, auth.uid()
+  from jsonb_populate_record(null::public.officials_reports, report) as r
+  returning officials_reports.id, officials_reports.reference;
+$$;
@@ -0,0 +1,155 @@
+-- Roles decide which reports a user can see:
+--   controller      reports they submitted
+--   garage_manager  reports for their home garage
+--   hub_leader      every report
+--   admin           every report, plus user roles and reference data
+create type public.app_role as enum ('controller', 'hub_leader', 'garage_manager', 'admin');
+
+create table public.user_roles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role public.app_role not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, role)
+);
+
+alter table public.user_roles enable row level security;
+
+-- Security definer so policies can check roles without recursing through user_roles RLS.
+create function public.has_role(_user_id uuid, _role public.app_role)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_roles
+    where user_id = _user_id and role = _role
+  );
+$$;
+
+create function public.current_user_garage()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select home_garage from public.profiles where id = auth.uid();
+$$;
+
+create policy "Users can view their own roles"
+  on public.user_roles for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Admins can view all roles"
+  on public.user_roles for select
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can grant roles"
+  on public.user_roles for insert
+  to authenticated
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can revoke roles"
+  on public.user_roles for delete
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'));
+
+-- Profiles carry the email so admins can tell users apart when assigning roles.
+alter table public.profiles add column email text;
+
+update public.profiles p
+set email = u.email
+from auth.users u
+where u.id = p.id;
+
+create policy "Admins can view all profiles"
+  on public.profiles for select
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'));
+
+-- New users start as controllers.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, full_name, extension_number, home_garage)
+  values (
+    new.id,
+    new.email,
+    coalesce(new.raw_user_meta_data ->> 'full_name', ''),
+    coalesce(new.raw_user_meta_data ->> 'extension_number', ''),
+    new.raw_user_meta_data ->> 'home_garage'
+  );
+
+  insert into public.user_roles (user_id, role)
+  values (new.id, 'controller');
+
+  return new;
+end;
+$$;
+
+insert into public.user_roles (user_id, role)
+select id, 'controller' from auth.users
+on conflict do nothing;
+
+create policy "Controllers can view reports they submitted"
+  on public.officials_reports for select
+  to authenticated
+  using (submitted_by = auth.uid());
+
+create policy "Garage managers can view reports for their garage"
+  on public.officials_reports for select
+  to authenticated
+  using (
+    public.has_role(auth.uid(), 'garage_manager')
+    and garage = public.current_user_garage()
+  );
+
+create policy "Hub leaders and admins can view all reports"
+  on public.officials_reports for select
+  to authenticated
+  using (
+    public.has_role(auth.uid(), 'hub_leader')
+    or public.has_role(auth.uid(), 'admin')
+  );
+
+-- Submitting now requires a signed-in user with at least one role.
+create or replace function public.submit_officials_report(report jsonb)
+returns table (id uuid, reference text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid()) then
+    raise exception 'Only signed-in staff can submit reports' using errcode = '42501';
+  end if;
+
+  return query
+  insert into public.officials_reports as o (
+    employee_name, employee_number, garage, route,
+    date_of_report, running_number, date_of_incident, duty_number,
+    time_of_incident, trip_number, location, fleet_number,
+    travelling_from, destination, subject_of_report, details_of_incident,
+    controller_name, extension_number, submitted_by
+  )
+  select
+    r.employee_name, r.employee_number, r.garage, r.route,
+    r.date_of_report, r.running_number, r.date_of_incident, r.duty_number,
+    r.time_of_incident, r.trip_number, r.location, r.fleet_number,
+    r.travelling_from, r.destination, r.subject_of_report, r.details_of_incident,
+    r.controller_name, r.extension_number, auth.uid()
+  from jsonb_populate_record(null::public.officials_reports, report) as r
+  returning o.id, o.reference;
+end;
+$$;
+
+revoke execute on function public.submit_officials_report(jsonb) from anon;
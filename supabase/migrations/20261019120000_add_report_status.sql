@@ -0,0 +1,6 @@
+-- Every stored report starts out as submitted.
+alter table public.officials_reports
+  add column status text not null default 'submitted';
+
+create index officials_reports_status_idx on public.officials_reports (status);
+create index officials_reports_created_at_idx on public.officials_reports (created_at desc);
@@ -0,0 +1,156 @@
+-- Report lifecycle: draft -> submitted -> under_review -> actioned -> closed.
+create type public.report_status as enum ('draft', 'submitted', 'under_review', 'actioned', 'closed');
+
+alter table public.officials_reports alter column status drop default;
+alter table public.officials_reports
+  alter column status type public.report_status using status::public.report_status;
+alter table public.officials_reports alter column status set default 'submitted';
+
+alter table public.officials_reports
+  add column outcome text,
+  add column action_taken text,
+  add column submitted_at timestamptz default now(),
+  add column under_review_at timestamptz,
+  add column actioned_at timestamptz,
+  add column closed_at timestamptz;
+
+update public.officials_reports set submitted_at = created_at;
+
+create table public.report_status_history (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null references public.officials_reports (id) on delete cascade,
+  from_status public.report_status,
+  to_status public.report_status not null,
+  note text,
+  changed_by uuid references auth.users (id) on delete set null,
+  changed_by_name text,
+  changed_at timestamptz not null default now()
+);
+
+create index report_status_history_report_id_idx on public.report_status_history (report_id, changed_at);
+
+alter table public.report_status_history enable row level security;
+
+-- History is visible to anyone who can see the report itself.
+create policy "Users can view history of reports they can see"
+  on public.report_status_history for select
+  to authenticated
+  using (exists (select 1 from public.officials_reports r where r.id = report_id));
+
+insert into public.report_status_history (report_id, from_status, to_status, changed_by, changed_by_name, changed_at)
+select id, null, status, submitted_by, controller_name, created_at from public.officials_reports;
+
+-- Whether the current user may see a report, mirroring the select policies.
+create function public.can_view_report(_report public.officials_reports)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select _report.submitted_by = auth.uid()
+    or public.has_role(auth.uid(), 'hub_leader')
+    or public.has_role(auth.uid(), 'admin')
+    or (public.has_role(auth.uid(), 'garage_manager') and _report.garage = public.current_user_garage());
+$$;
+
+-- Moves a report to a new status, enforcing who may make each transition.
+-- Keep in step with reportTransitions in src/lib/report-status.ts.
+create function public.transition_report_status(
+  _report_id uuid,
+  _to_status public.report_status,
+  _note text default null,
+  _outcome text default null,
+  _action_taken text default null
+)
+returns public.officials_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _report public.officials_reports;
+  _from_status public.report_status;
+  _uid uuid := auth.uid();
+  _is_manager boolean := public.has_role(_uid, 'garage_manager');
+  _is_hub_leader boolean := public.has_role(_uid, 'hub_leader') or public.has_role(_uid, 'admin');
+  _allowed boolean;
+begin
+  select * into _report from public.officials_reports where id = _report_id for update;
+
+  if _report.id is null or not public.can_view_report(_report) then
+    raise exception 'Report not found' using errcode = 'P0002';
+  end if;
+
+  _allowed := case
+    when _report.status = 'draft' and _to_status = 'submitted' then
+      _report.submitted_by = _uid or _is_hub_leader
+    when _report.status = 'submitted' and _to_status = 'under_review' then
+      _is_manager or _is_hub_leader
+    when _report.status = 'under_review' and _to_status = 'actioned' then
+      _is_manager or _is_hub_leader
+    when _report.status = 'actioned' and _to_status = 'closed' then
+      _is_hub_leader
+    when _report.status = 'closed' and _to_status = 'under_review' then
+      _is_hub_leader
+    else false
+  end;
+
+  if not _allowed then
+    raise exception 'You cannot move this report from % to %', _report.status, _to_status
+      using errcode = '42501';
+  end if;
+
+  if _to_status = 'actioned' and (coalesce(trim(_outcome), '') = '' or coalesce(trim(_action_taken), '') = '') then
+    raise exception 'Outcome and action taken are required to action a report'
+      using errcode = '23514';
+  end if;
+
+  _from_status := _report.status;
+
+  update public.officials_reports
+  set
+    status = _to_status,
+    outcome = coalesce(_outcome, outcome),
+    action_taken = coalesce(_action_taken, action_taken),
+    submitted_at = case when _to_status = 'submitted' then now() else submitted_at end,
+    under_review_at = case when _to_status = 'under_review' then now() else under_review_at end,
+    actioned_at = case when _to_status = 'actioned' then now() else actioned_at end,
+    closed_at = case when _to_status = 'closed' then now() else closed_at end
+  where id = _report_id
+  returning * into _report;
+
+  insert into public.report_status_history (report_id, from_status, to_status, note, changed_by, changed_by_name)
+  values (
+    _report_id,
+    _from_status,
+    _to_status,
+    nullif(trim(_note), ''),
+    _uid,
+    (select nullif(full_name, '') from public.profiles where id = _uid)
+  );
+
+  return _report;
+end;
+$$;
+
+revoke all on function public.transition_report_status(uuid, public.report_status, text, text, text) from public;
+grant execute on function public.transition_report_status(uuid, public.report_status, text, text, text) to authenticated;
+
+-- New submissions record their first history entry.
+create function public.record_initial_report_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.report_status_history (report_id, from_status, to_status, changed_by, changed_by_name)
+  values (new.id, null, new.status, new.submitted_by, new.controller_name);
+  return new;
+end;
+$$;
+
+create trigger officials_reports_initial_status
+  after insert on public.officials_reports
+  for each row execute function public.record_initial_report_status();
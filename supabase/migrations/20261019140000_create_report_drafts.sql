@@ -0,0 +1,33 @@
+-- Unfinished reports synced from the browser so a controller can resume them on another device.
+create table public.report_drafts (
+  id uuid primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  data jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+create index report_drafts_user_id_idx on public.report_drafts (user_id, updated_at desc);
+
+alter table public.report_drafts enable row level security;
+
+create policy "Users can view their own drafts"
+  on public.report_drafts for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own drafts"
+  on public.report_drafts for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own drafts"
+  on public.report_drafts for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own drafts"
+  on public.report_drafts for delete
+  to authenticated
+  using (auth.uid() = user_id);
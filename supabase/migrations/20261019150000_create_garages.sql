@@ -0,0 +1,40 @@
+-- Garages and their short codes, managed by admins instead of being hard-coded in the form.
+create table public.garages (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  short_code text not null unique check (short_code ~ '^[A-Z0-9]{1,6}$'),
+  address text,
+  active boolean not null default true,
+  default_recipient_email text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger garages_set_updated_at
+  before update on public.garages
+  for each row execute function public.set_updated_at();
+
+alter table public.garages enable row level security;
+
+-- The garage list is also needed on the sign-up form, before the user has a session.
+create policy "Anyone can view garages"
+  on public.garages for select
+  to anon, authenticated
+  using (true);
+
+create policy "Admins can add garages"
+  on public.garages for insert
+  to authenticated
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can update garages"
+  on public.garages for update
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+insert into public.garages (name, short_code) values
+  ('Fullwell', 'FW'),
+  ('Hounslow', 'AV'),
+  ('Hounslow Heath', 'WK'),
+  ('Tolworth', 'TV');
@@ -0,0 +1,210 @@
+-- Subject-of-report taxonomy, managed by admins instead of being hard-coded in the form.
+-- Reports keep the subject name as text, so renaming or retiring a subject never
+-- changes what a historic report says.
+create type public.report_subject_category as enum ('conduct', 'operational', 'safety', 'customer');
+create type public.report_severity as enum ('low', 'medium', 'high', 'critical');
+
+create table public.report_subjects (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  category public.report_subject_category not null,
+  default_severity public.report_severity not null default 'medium',
+  requires_manager_signoff boolean not null default false,
+  retired_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger report_subjects_set_updated_at
+  before update on public.report_subjects
+  for each row execute function public.set_updated_at();
+
+alter table public.report_subjects enable row level security;
+
+create policy "Signed-in users can view report subjects"
+  on public.report_subjects for select
+  to authenticated
+  using (true);
+
+create policy "Admins can add report subjects"
+  on public.report_subjects for insert
+  to authenticated
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can update report subjects"
+  on public.report_subjects for update
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+insert into public.report_subjects (name, category, default_severity, requires_manager_signoff) values
+  ('Failing to follow instructions', 'conduct', 'medium', false),
+  ('Attitude and demeanour', 'conduct', 'medium', true),
+  ('Delaying service', 'operational', 'low', false),
+  ('Failing Headway', 'operational', 'low', false),
+  ('Late departure', 'operational', 'low', false),
+  ('Driver error', 'safety', 'high', true);
+
+-- Each report records the severity and sign-off requirement its subject had when it
+-- was submitted, plus who signed it off.
+alter table public.officials_reports
+  add column severity public.report_severity,
+  add column requires_manager_signoff boolean not null default false,
+  add column signed_off_at timestamptz,
+  add column signed_off_by uuid references auth.users (id) on delete set null,
+  add column signed_off_by_name text;
+
+update public.officials_reports r
+set severity = s.default_severity, requires_manager_signoff = s.requires_manager_signoff
+from public.report_subjects s
+where s.name = r.subject_of_report;
+
+create function public.apply_report_subject_defaults()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select coalesce(new.severity, s.default_severity), s.requires_manager_signoff
+  into new.severity, new.requires_manager_signoff
+  from public.report_subjects s
+  where s.name = new.subject_of_report;
+
+  new.requires_manager_signoff := coalesce(new.requires_manager_signoff, false);
+  return new;
+end;
+$$;
+
+create trigger officials_reports_subject_defaults
+  before insert on public.officials_reports
+  for each row execute function public.apply_report_subject_defaults();
+
+-- Records a garage manager's sign-off on a report whose subject requires it.
+create function public.sign_off_report(_report_id uuid)
+returns public.officials_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _report public.officials_reports;
+  _uid uuid := auth.uid();
+begin
+  select * into _report from public.officials_reports where id = _report_id for update;
+
+  if _report.id is null or not public.can_view_report(_report) then
+    raise exception 'Report not found' using errcode = 'P0002';
+  end if;
+
+  if not (public.has_role(_uid, 'garage_manager') or public.has_role(_uid, 'admin')) then
+    raise exception 'Only garage managers can sign off reports' using errcode = '42501';
+  end if;
+
+  if not _report.requires_manager_signoff or _report.signed_off_at is not null then
+    raise exception 'This report does not need signing off' using errcode = '23514';
+  end if;
+
+  if _report.status not in ('under_review', 'actioned') then
+    raise exception 'Reports can only be signed off while under review or actioned' using errcode = '23514';
+  end if;
+
+  update public.officials_reports
+  set
+    signed_off_at = now(),
+    signed_off_by = _uid,
+    signed_off_by_name = (select nullif(full_name, '') from public.profiles where id = _uid)
+  where id = _report_id
+  returning * into _report;
+
+  return _report;
+end;
+$$;
+
+revoke all on function public.sign_off_report(uuid) from public;
+grant execute on function public.sign_off_report(uuid) to authenticated;
+
+-- Closing now also requires the manager sign-off when the subject needs one.
+-- Keep in step with reportTransitions in src/lib/report-status.ts.
+create or replace function public.transition_report_status(
+  _report_id uuid,
+  _to_status public.report_status,
+  _note text default null,
+  _outcome text default null,
+  _action_taken text default null
+)
+returns public.officials_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _report public.officials_reports;
+  _from_status public.report_status;
+  _uid uuid := auth.uid();
+  _is_manager boolean := public.has_role(_uid, 'garage_manager');
+  _is_hub_leader boolean := public.has_role(_uid, 'hub_leader') or public.has_role(_uid, 'admin');
+  _allowed boolean;
+begin
+  select * into _report from public.officials_reports where id = _report_id for update;
+
+  if _report.id is null or not public.can_view_report(_report) then
+    raise exception 'Report not found' using errcode = 'P0002';
+  end if;
+
+  _allowed := case
+    when _report.status = 'draft' and _to_status = 'submitted' then
+      _report.submitted_by = _uid or _is_hub_leader
+    when _report.status = 'submitted' and _to_status = 'under_review' then
+      _is_manager or _is_hub_leader
+    when _report.status = 'under_review' and _to_status = 'actioned' then
+      _is_manager or _is_hub_leader
+    when _report.status = 'actioned' and _to_status = 'closed' then
+      _is_hub_leader
+    when _report.status = 'closed' and _to_status = 'under_review' then
+      _is_hub_leader
+    else false
+  end;
+
+  if not _allowed then
+    raise exception 'You cannot move this report from % to %', _report.status, _to_status
+      using errcode = '42501';
+  end if;
+
+  if _to_status = 'actioned' and (coalesce(trim(_outcome), '') = '' or coalesce(trim(_action_taken), '') = '') then
+    raise exception 'Outcome and action taken are required to action a report'
+      using errcode = '23514';
+  end if;
+
+  if _to_status = 'closed' and _report.requires_manager_signoff and _report.signed_off_at is null then
+    raise exception 'A garage manager must sign off this report before it is closed'
+      using errcode = '23514';
+  end if;
+
+  _from_status := _report.status;
+
+  update public.officials_reports
+  set
+    status = _to_status,
+    outcome = coalesce(_outcome, outcome),
+    action_taken = coalesce(_action_taken, action_taken),
+    submitted_at = case when _to_status = 'submitted' then now() else submitted_at end,
+    under_review_at = case when _to_status = 'under_review' then now() else under_review_at end,
+    actioned_at = case when _to_status = 'actioned' then now() else actioned_at end,
+    closed_at = case when _to_status = 'closed' then now() else closed_at end
+  where id = _report_id
+  returning * into _report;
+
+  insert into public.report_status_history (report_id, from_status, to_status, note, changed_by, changed_by_name)
+  values (
+    _report_id,
+    _from_status,
+    _to_status,
+    nullif(trim(_note), ''),
+    _uid,
+    (select nullif(full_name, '') from public.profiles where id = _uid)
+  );
+
+  return _report;
+end;
+$$;
@@ -0,0 +1,51 @@
+-- Route master data. Route numbers are stored normalised ("H32", not "h 32" or
+-- "Route H32") so reports for the same route can be grouped.
+create table public.routes (
+  id uuid primary key default gen_random_uuid(),
+  route_number text not null unique check (route_number ~ '^[A-Z0-9]+$'),
+  terminus_a text,
+  terminus_b text,
+  active_from date,
+  active_to date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (active_to is null or active_from is null or active_to >= active_from)
+);
+
+create trigger routes_set_updated_at
+  before update on public.routes
+  for each row execute function public.set_updated_at();
+
+-- Garages a route is operated from; some routes are shared between garages.
+create table public.route_garages (
+  route_id uuid not null references public.routes (id) on delete cascade,
+  garage_id uuid not null references public.garages (id) on delete cascade,
+  primary key (route_id, garage_id)
+);
+
+create index route_garages_garage_id_idx on public.route_garages (garage_id);
+
+alter table public.routes enable row level security;
+alter table public.route_garages enable row level security;
+
+create policy "Signed-in users can view routes"
+  on public.routes for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage routes"
+  on public.routes for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+create policy "Signed-in users can view route garages"
+  on public.route_garages for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage route garages"
+  on public.route_garages for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
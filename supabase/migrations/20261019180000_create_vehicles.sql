@@ -0,0 +1,61 @@
+-- Fleet register, maintained by admins through CSV import.
+create table public.vehicles (
+  id uuid primary key default gen_random_uuid(),
+  fleet_number text not null unique,
+  registration text not null,
+  vehicle_type text,
+  garage_id uuid references public.garages (id) on delete set null,
+  in_service boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger vehicles_set_updated_at
+  before update on public.vehicles
+  for each row execute function public.set_updated_at();
+
+alter table public.vehicles enable row level security;
+
+create policy "Signed-in users can view vehicles"
+  on public.vehicles for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage vehicles"
+  on public.vehicles for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- Reports record the registration of the vehicle as it was when submitted.
+alter table public.officials_reports add column registration text;
+
+create or replace function public.submit_officials_report(report jsonb)
+returns table (id uuid, reference text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid()) then
+    raise exception 'Only signed-in staff can submit reports' using errcode = '42501';
+  end if;
+
+  return query
+  insert into public.officials_reports as o (
+    employee_name, employee_number, garage, route,
+    date_of_report, running_number, date_of_incident, duty_number,
+    time_of_incident, trip_number, location, fleet_number, registration,
+    travelling_from, destination, subject_of_report, details_of_incident,
+    controller_name, extension_number, submitted_by
+  )
+  select
+    r.employee_name, r.employee_number, r.garage, r.route,
+    r.date_of_report, r.running_number, r.date_of_incident, r.duty_number,
+    r.time_of_incident, r.trip_number, r.location, r.fleet_number, r.registration,
+    r.travelling_from, r.destination, r.subject_of_report, r.details_of_incident,
+    r.controller_name, r.extension_number, auth.uid()
+  from jsonb_populate_record(null::public.officials_reports, report) as r
+  returning o.id, o.reference;
+end;
+$$;
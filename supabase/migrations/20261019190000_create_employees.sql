@@ -0,0 +1,29 @@
+-- Employee directory, maintained by admins through CSV import, so names and
+-- numbers on reports can be checked against each other.
+create table public.employees (
+  id uuid primary key default gen_random_uuid(),
+  employee_number text not null unique,
+  full_name text not null,
+  home_garage_id uuid references public.garages (id) on delete set null,
+  grade text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger employees_set_updated_at
+  before update on public.employees
+  for each row execute function public.set_updated_at();
+
+alter table public.employees enable row level security;
+
+-- Personal data, so only staff with a role can read it.
+create policy "Staff can view employees"
+  on public.employees for select
+  to authenticated
+  using (exists (select 1 from public.user_roles where user_id = auth.uid()));
+
+create policy "Admins can manage employees"
+  on public.employees for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
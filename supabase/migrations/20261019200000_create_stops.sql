@@ -0,0 +1,73 @@
+-- Bus stops imported by admins from NaPTAN or TfL stop files, so report locations
+-- can be tied to a stop and aggregated by place.
+create table public.stops (
+  atco_code text primary key,
+  naptan_code text,
+  common_name text not null,
+  indicator text,
+  street text,
+  locality text,
+  latitude double precision,
+  longitude double precision,
+  updated_at timestamptz not null default now()
+);
+
+create index stops_naptan_code_idx on public.stops (naptan_code);
+create index stops_common_name_idx on public.stops (lower(common_name) text_pattern_ops);
+create index stops_position_idx on public.stops (latitude, longitude);
+
+create trigger stops_set_updated_at
+  before update on public.stops
+  for each row execute function public.set_updated_at();
+
+alter table public.stops enable row level security;
+
+create policy "Signed-in users can view stops"
+  on public.stops for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage stops"
+  on public.stops for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- The structured location behind the free-text location shown on the report:
+-- the stop it was picked from and/or where the device was.
+alter table public.officials_reports
+  add column location_stop_code text,
+  add column location_latitude double precision,
+  add column location_longitude double precision;
+
+create or replace function public.submit_officials_report(report jsonb)
+returns table (id uuid, reference text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid()) then
+    raise exception 'Only signed-in staff can submit reports' using errcode = '42501';
+  end if;
+
+  return query
+  insert into public.officials_reports as o (
+    employee_name, employee_number, garage, route,
+    date_of_report, running_number, date_of_incident, duty_number,
+    time_of_incident, trip_number, location, location_stop_code,
+    location_latitude, location_longitude, fleet_number, registration,
+    travelling_from, destination, subject_of_report, details_of_incident,
+    controller_name, extension_number, submitted_by
+  )
+  select
+    r.employee_name, r.employee_number, r.garage, r.route,
+    r.date_of_report, r.running_number, r.date_of_incident, r.duty_number,
+    r.time_of_incident, r.trip_number, r.location, r.location_stop_code,
+    r.location_latitude, r.location_longitude, r.fleet_number, r.registration,
+    r.travelling_from, r.destination, r.subject_of_report, r.details_of_incident,
+    r.controller_name, r.extension_number, auth.uid()
+  from jsonb_populate_record(null::public.officials_reports, report) as r
+  returning o.id, o.reference;
+end;
+$$;
@@ -0,0 +1,64 @@
+-- Photos and documents attached to reports. Files live in a private bucket under
+-- <report id>/, and each has a row here so reports can list them without the
+-- storage API.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'report-attachments',
+  'report-attachments',
+  false,
+  10485760,
+  -- Keep in step with attachmentTypes in src/lib/attachments.ts
+  array['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+);
+
+create table public.report_attachments (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null references public.officials_reports (id) on delete cascade,
+  storage_path text not null unique,
+  filename text not null,
+  content_type text not null,
+  size_bytes integer not null,
+  uploaded_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index report_attachments_report_id_idx on public.report_attachments (report_id, created_at);
+
+alter table public.report_attachments enable row level security;
+
+-- Attachments are visible to anyone who can see the report itself.
+create policy "Users can view attachments of reports they can see"
+  on public.report_attachments for select
+  to authenticated
+  using (exists (select 1 from public.officials_reports r where r.id = report_id));
+
+create policy "Users can attach files to reports they can see"
+  on public.report_attachments for insert
+  to authenticated
+  with check (
+    uploaded_by = auth.uid()
+    and exists (select 1 from public.officials_reports r where r.id = report_id)
+  );
+
+-- The first folder of an object's path is the report it belongs to.
+create policy "Users can read attachment files of reports they can see"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'report-attachments'
+    and exists (
+      select 1 from public.officials_reports r
+      where r.id::text = (storage.foldername(name))[1]
+    )
+  );
+
+create policy "Users can upload attachment files to reports they can see"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'report-attachments'
+    and exists (
+      select 1 from public.officials_reports r
+      where r.id::text = (storage.foldername(name))[1]
+    )
+  );
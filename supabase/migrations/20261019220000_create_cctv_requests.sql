@@ -0,0 +1,108 @@
+-- Requests to preserve on-bus CCTV before the vehicle's recorder overwrites it.
+-- Each garage sets how long its recorders keep footage, which gives the deadline.
+alter table public.garages
+  add column cctv_retention_days integer not null default 14 check (cctv_retention_days > 0);
+
+create type public.cctv_request_status as enum ('requested', 'retrieved', 'not_available');
+
+create table public.cctv_requests (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null unique references public.officials_reports (id) on delete cascade,
+  fleet_number text not null,
+  window_start timestamptz not null,
+  window_end timestamptz not null,
+  cameras text[] not null default '{}',
+  status public.cctv_request_status not null default 'requested',
+  notes text,
+  requested_by uuid default auth.uid() references auth.users (id) on delete set null,
+  requested_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (window_end > window_start)
+);
+
+create index cctv_requests_status_idx on public.cctv_requests (status, window_start);
+
+create trigger cctv_requests_set_updated_at
+  before update on public.cctv_requests
+  for each row execute function public.set_updated_at();
+
+alter table public.cctv_requests enable row level security;
+
+-- Requests are visible to anyone who can see the report itself.
+create policy "Users can view CCTV requests of reports they can see"
+  on public.cctv_requests for select
+  to authenticated
+  using (exists (select 1 from public.officials_reports r where r.id = report_id));
+
+-- A request can also be raised after submission, by the author or a reviewer.
+create policy "Authors and reviewers can request CCTV"
+  on public.cctv_requests for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from public.officials_reports r
+      where r.id = report_id
+        and (
+          r.submitted_by = auth.uid()
+          or public.has_role(auth.uid(), 'garage_manager')
+          or public.has_role(auth.uid(), 'hub_leader')
+          or public.has_role(auth.uid(), 'admin')
+        )
+    )
+  );
+
+create policy "Reviewers can update CCTV requests"
+  on public.cctv_requests for update
+  to authenticated
+  using (
+    exists (select 1 from public.officials_reports r where r.id = report_id)
+    and (
+      public.has_role(auth.uid(), 'garage_manager')
+      or public.has_role(auth.uid(), 'hub_leader')
+      or public.has_role(auth.uid(), 'admin')
+    )
+  );
+
+-- A report may carry its CCTV request under the cctv_request key, stored in the
+-- same transaction so the request is never lost when the report is saved.
+create or replace function public.submit_officials_report(report jsonb)
+returns table (id uuid, reference text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _id uuid;
+  _reference text;
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid()) then
+    raise exception 'Only signed-in staff can submit reports' using errcode = '42501';
+  end if;
+
+  insert into public.officials_reports as o (
+    employee_name, employee_number, garage, route,
+    date_of_report, running_number, date_of_incident, duty_number,
+    time_of_incident, trip_number, location, location_stop_code,
+    location_latitude, location_longitude, fleet_number, registration,
+    travelling_from, destination, subject_of_report, details_of_incident,
+    controller_name, extension_number, submitted_by
+  )
+  select
+    r.employee_name, r.employee_number, r.garage, r.route,
+    r.date_of_report, r.running_number, r.date_of_incident, r.duty_number,
+    r.time_of_incident, r.trip_number, r.location, r.location_stop_code,
+    r.location_latitude, r.location_longitude, r.fleet_number, r.registration,
+    r.travelling_from, r.destination, r.subject_of_report, r.details_of_incident,
+    r.controller_name, r.extension_number, auth.uid()
+  from jsonb_populate_record(null::public.officials_reports, report) as r
+  returning o.id, o.reference into _id, _reference;
+
+  if jsonb_typeof(report -> 'cctv_request') = 'object' then
+    insert into public.cctv_requests (report_id, fleet_number, window_start, window_end, cameras, requested_by)
+    select _id, c.fleet_number, c.window_start, c.window_end, coalesce(c.cameras, '{}'), auth.uid()
+    from jsonb_populate_record(null::public.cctv_requests, report -> 'cctv_request') as c;
+  end if;
+
+  return query select _id, _reference;
+end;
+$$;
@@ -0,0 +1,73 @@
+-- The reported employee's own account, taken later by the garage. One per report,
+-- kept from the controller who raised it.
+create table public.employee_statements (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null unique references public.officials_reports (id) on delete cascade,
+  statement text not null check (length(trim(statement)) > 0),
+  given_at timestamptz not null default now(),
+  recorded_by uuid references auth.users (id) on delete set null,
+  recorded_by_name text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger employee_statements_set_updated_at
+  before update on public.employee_statements
+  for each row execute function public.set_updated_at();
+
+-- Whoever last wrote the statement is recorded as its author.
+create function public.stamp_employee_statement_author()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.recorded_by := auth.uid();
+  new.recorded_by_name := (select nullif(full_name, '') from public.profiles where id = auth.uid());
+  return new;
+end;
+$$;
+
+create trigger employee_statements_stamp_author
+  before insert or update on public.employee_statements
+  for each row execute function public.stamp_employee_statement_author();
+
+alter table public.employee_statements enable row level security;
+
+-- Garage managers (for their own garage's reports), hub leaders and admins only.
+create policy "Reviewers can view employee statements"
+  on public.employee_statements for select
+  to authenticated
+  using (
+    exists (select 1 from public.officials_reports r where r.id = report_id)
+    and (
+      public.has_role(auth.uid(), 'garage_manager')
+      or public.has_role(auth.uid(), 'hub_leader')
+      or public.has_role(auth.uid(), 'admin')
+    )
+  );
+
+create policy "Reviewers can record employee statements"
+  on public.employee_statements for insert
+  to authenticated
+  with check (
+    exists (select 1 from public.officials_reports r where r.id = report_id)
+    and (
+      public.has_role(auth.uid(), 'garage_manager')
+      or public.has_role(auth.uid(), 'hub_leader')
+      or public.has_role(auth.uid(), 'admin')
+    )
+  );
+
+create policy "Reviewers can update employee statements"
+  on public.employee_statements for update
+  to authenticated
+  using (
+    exists (select 1 from public.officials_reports r where r.id = report_id)
+    and (
+      public.has_role(auth.uid(), 'garage_manager')
+      or public.has_role(auth.uid(), 'hub_leader')
+      or public.has_role(auth.uid(), 'admin')
+    )
+  );
@@ -0,0 +1,55 @@
+-- Repeat-pattern alerts: a subject can raise an alert once an employee has been
+-- reported for it a set number of times within a rolling window.
+alter table public.report_subjects
+  add column repeat_alert_threshold integer check (repeat_alert_threshold >= 2),
+  add column repeat_alert_window_days integer check (repeat_alert_window_days in (30, 90, 365)),
+  add check ((repeat_alert_threshold is null) = (repeat_alert_window_days is null));
+
+create index officials_reports_employee_number_date_idx
+  on public.officials_reports (employee_number, date_of_incident);
+
+-- An employee's prior reports counted by subject over rolling 30, 90 and 365 day
+-- windows ending on _as_of. Only counts are returned, so controllers filling in a
+-- report see the pattern across all garages without seeing the reports themselves.
+create function public.employee_report_history(
+  _employee_number text,
+  _as_of date default current_date,
+  _exclude_report_id uuid default null
+)
+returns table (
+  subject_of_report text,
+  last_30_days integer,
+  last_90_days integer,
+  last_365_days integer,
+  latest_incident date
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid()) then
+    raise exception 'Only signed-in staff can view employee history' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    r.subject_of_report,
+    (count(*) filter (where r.date_of_incident > _as_of - 30))::integer,
+    (count(*) filter (where r.date_of_incident > _as_of - 90))::integer,
+    count(*)::integer,
+    max(r.date_of_incident)
+  from public.officials_reports r
+  where r.employee_number = trim(_employee_number)
+    and r.status <> 'draft'
+    and r.date_of_incident > _as_of - 365
+    and r.date_of_incident <= _as_of
+    and r.id is distinct from _exclude_report_id
+  group by r.subject_of_report
+  order by count(*) desc, r.subject_of_report;
+end;
+$$;
+
+revoke all on function public.employee_report_history(text, date, uuid) from public;
+grant execute on function public.employee_report_history(text, date, uuid) to authenticated;
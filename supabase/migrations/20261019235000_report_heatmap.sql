@@ -0,0 +1,42 @@
+-- Report counts by route, day of week (1 = Monday) and hour of the incident, for the
+-- heatmap. Only counts are returned, so controllers can see where incidents cluster
+-- across the network without seeing other controllers' reports.
+create function public.report_heatmap(
+  _from date,
+  _to date,
+  _garage text default null,
+  _subject text default null
+)
+returns table (
+  route text,
+  day_of_week integer,
+  hour integer,
+  reports integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid()) then
+    raise exception 'Only signed-in staff can view the heatmap' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    r.route,
+    extract(isodow from r.date_of_incident)::integer,
+    extract(hour from r.time_of_incident)::integer,
+    count(*)::integer
+  from public.officials_reports r
+  where r.status <> 'draft'
+    and r.date_of_incident between _from and _to
+    and (_garage is null or r.garage = _garage)
+    and (_subject is null or r.subject_of_report = _subject)
+  group by 1, 2, 3;
+end;
+$$;
+
+revoke all on function public.report_heatmap(date, date, text, text) from public;
+grant execute on function public.report_heatmap(date, date, text, text) to authenticated;
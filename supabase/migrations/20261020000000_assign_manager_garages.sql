@@ -0,0 +1,28 @@
+-- Garage managers were scoped by profiles.home_garage, which every user can edit on
+-- their own profile. The garage a manager covers is now part of their role, which
+-- only admins can write; the profile's home garage only prefills new reports.
+alter table public.user_roles add column garage text;
+
+-- Existing managers keep the garage they had
+update public.user_roles ur
+set garage = p.home_garage
+from public.profiles p
+where p.id = ur.user_id and ur.role = 'garage_manager';
+
+create policy "Admins can assign garages to roles"
+  on public.user_roles for update
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- can_view_report, transition_report_status, sign_off_report and the garage manager
+-- report policy all scope managers through this function.
+create or replace function public.current_user_garage()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select garage from public.user_roles where user_id = auth.uid() and role = 'garage_manager';
+$$;
@@ -0,0 +1,21 @@
+-- Anyone can create an account, so a new account no longer becomes a controller on
+-- its own: it has no role, and so no access, until an admin grants one on the Users
+-- page. Existing accounts keep the roles they have.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, full_name, extension_number, home_garage)
+  values (
+    new.id,
+    new.email,
+    coalesce(new.raw_user_meta_data ->> 'full_name', ''),
+    coalesce(new.raw_user_meta_data ->> 'extension_number', ''),
+    new.raw_user_meta_data ->> 'home_garage'
+  );
+  return new;
+end;
+$$;
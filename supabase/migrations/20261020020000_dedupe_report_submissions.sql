@@ -0,0 +1,62 @@
+-- The client gives each submission an id of its own. A submission that is sent again
+-- after its response was lost, or replayed from the offline queue by a second tab,
+-- then returns the report it already created instead of storing a duplicate.
+alter table public.officials_reports add column client_id uuid unique;
+
+create or replace function public.submit_officials_report(report jsonb)
+returns table (id uuid, reference text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _id uuid;
+  _reference text;
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid()) then
+    raise exception 'Only signed-in staff can submit reports' using errcode = '42501';
+  end if;
+
+  insert into public.officials_reports as o (
+    employee_name, employee_number, garage, route,
+    date_of_report, running_number, date_of_incident, duty_number,
+    time_of_incident, trip_number, location, location_stop_code,
+    location_latitude, location_longitude, fleet_number, registration,
+    travelling_from, destination, subject_of_report, details_of_incident,
+    controller_name, extension_number, submitted_by, client_id
+  )
+  select
+    r.employee_name, r.employee_number, r.garage, r.route,
+    r.date_of_report, r.running_number, r.date_of_incident, r.duty_number,
+    r.time_of_incident, r.trip_number, r.location, r.location_stop_code,
+    r.location_latitude, r.location_longitude, r.fleet_number, r.registration,
+    r.travelling_from, r.destination, r.subject_of_report, r.details_of_incident,
+    r.controller_name, r.extension_number, auth.uid(), r.client_id
+  from jsonb_populate_record(null::public.officials_reports, report) as r
+  on conflict (client_id) do nothing
+  returning o.id, o.reference into _id, _reference;
+
+  -- A replay of a submission that was already stored returns the stored report
+  if _id is null then
+    return query
+      select o.id, o.reference from public.officials_reports o
+      where o.client_id = (report ->> 'client_id')::uuid and o.submitted_by = auth.uid();
+    return;
+  end if;
+
+  if jsonb_typeof(report -> 'cctv_request') = 'object' then
+    insert into public.cctv_requests (report_id, fleet_number, window_start, window_end, cameras, requested_by)
+    select _id, c.fleet_number, c.window_start, c.window_end, coalesce(c.cameras, '{}'), auth.uid()
+    from jsonb_populate_record(null::public.cctv_requests, report -> 'cctv_request') as c;
+  end if;
+
+  if jsonb_typeof(report -> 'witnesses') = 'array' then
+    insert into public.report_witnesses (report_id, position, name, role, contact, statement, consent_to_contact)
+    select _id, e.position, w.name, w.role, w.contact, w.statement, coalesce(w.consent_to_contact, false)
+    from jsonb_array_elements(report -> 'witnesses') with ordinality as e(witness, position)
+    cross join lateral jsonb_populate_record(null::public.report_witnesses, e.witness) as w;
+  end if;
+
+  return query select _id, _reference;
+end;
+$$;
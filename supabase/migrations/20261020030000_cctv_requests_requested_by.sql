@@ -0,0 +1,20 @@
+-- requested_by defaults to the signed-in user but could be set to anyone on insert,
+-- recording a request against someone who never made it.
+drop policy "Authors and reviewers can request CCTV" on public.cctv_requests;
+
+create policy "Authors and reviewers can request CCTV"
+  on public.cctv_requests for insert
+  to authenticated
+  with check (
+    requested_by = auth.uid()
+    and exists (
+      select 1 from public.officials_reports r
+      where r.id = report_id
+        and (
+          r.submitted_by = auth.uid()
+          or public.has_role(auth.uid(), 'garage_manager')
+          or public.has_role(auth.uid(), 'hub_leader')
+          or public.has_role(auth.uid(), 'admin')
+        )
+    )
+  );
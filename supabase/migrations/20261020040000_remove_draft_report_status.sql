@@ -0,0 +1,180 @@
+-- Reports are stored by submit_officials_report already submitted and drafts live
+-- in report_drafts, so no report is ever in the draft status. Postgres cannot drop
+-- an enum value, so the type is recreated without it.
+alter type public.report_status rename to report_status_old;
+
+create type public.report_status as enum ('submitted', 'under_review', 'actioned', 'closed');
+
+drop function public.transition_report_status(uuid, public.report_status_old, text, text, text);
+
+alter table public.officials_reports alter column status drop default;
+alter table public.officials_reports
+  alter column status type public.report_status
+  using status::text::public.report_status;
+alter table public.officials_reports alter column status set default 'submitted';
+
+alter table public.report_status_history
+  alter column from_status type public.report_status using from_status::text::public.report_status,
+  alter column to_status type public.report_status using to_status::text::public.report_status;
+
+drop type public.report_status_old;
+
+-- Moves a report to a new status, enforcing who may make each transition.
+-- Keep in step with reportTransitions in src/lib/report-status.ts.
+create function public.transition_report_status(
+  _report_id uuid,
+  _to_status public.report_status,
+  _note text default null,
+  _outcome text default null,
+  _action_taken text default null
+)
+returns public.officials_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _report public.officials_reports;
+  _from_status public.report_status;
+  _uid uuid := auth.uid();
+  _is_manager boolean := public.has_role(_uid, 'garage_manager');
+  _is_hub_leader boolean := public.has_role(_uid, 'hub_leader') or public.has_role(_uid, 'admin');
+  _allowed boolean;
+begin
+  select * into _report from public.officials_reports where id = _report_id for update;
+
+  if _report.id is null or not public.can_view_report(_report) then
+    raise exception 'Report not found' using errcode = 'P0002';
+  end if;
+
+  _allowed := case
+    when _report.status = 'submitted' and _to_status = 'under_review' then
+      _is_manager or _is_hub_leader
+    when _report.status = 'under_review' and _to_status = 'actioned' then
+      _is_manager or _is_hub_leader
+    when _report.status = 'actioned' and _to_status = 'closed' then
+      _is_hub_leader
+    when _report.status = 'closed' and _to_status = 'under_review' then
+      _is_hub_leader
+    else false
+  end;
+
+  if not _allowed then
+    raise exception 'You cannot move this report from % to %', _report.status, _to_status
+      using errcode = '42501';
+  end if;
+
+  if _to_status = 'actioned' and (coalesce(trim(_outcome), '') = '' or coalesce(trim(_action_taken), '') = '') then
+    raise exception 'Outcome and action taken are required to action a report'
+      using errcode = '23514';
+  end if;
+
+  if _to_status = 'closed' and _report.requires_manager_signoff and _report.signed_off_at is null then
+    raise exception 'A garage manager must sign off this report before it is closed'
+      using errcode = '23514';
+  end if;
+
+  _from_status := _report.status;
+
+  update public.officials_reports
+  set
+    status = _to_status,
+    outcome = coalesce(_outcome, outcome),
+    action_taken = coalesce(_action_taken, action_taken),
+    under_review_at = case when _to_status = 'under_review' then now() else under_review_at end,
+    actioned_at = case when _to_status = 'actioned' then now() else actioned_at end,
+    closed_at = case when _to_status = 'closed' then now() else closed_at end
+  where id = _report_id
+  returning * into _report;
+
+  insert into public.report_status_history (report_id, from_status, to_status, note, changed_by, changed_by_name)
+  values (
+    _report_id,
+    _from_status,
+    _to_status,
+    nullif(trim(_note), ''),
+    _uid,
+    (select nullif(full_name, '') from public.profiles where id = _uid)
+  );
+
+  return _report;
+end;
+$$;
+
+revoke all on function public.transition_report_status(uuid, public.report_status, text, text, text) from public;
+grant execute on function public.transition_report_status(uuid, public.report_status, text, text, text) to authenticated;
+
+create or replace function public.employee_report_history(
+  _employee_number text,
+  _as_of date default current_date,
+  _exclude_report_id uuid default null
+)
+returns table (
+  subject_of_report text,
+  last_30_days integer,
+  last_90_days integer,
+  last_365_days integer,
+  latest_incident date
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid()) then
+    raise exception 'Only signed-in staff can view employee history' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    r.subject_of_report,
+    (count(*) filter (where r.date_of_incident > _as_of - 30))::integer,
+    (count(*) filter (where r.date_of_incident > _as_of - 90))::integer,
+    count(*)::integer,
+    max(r.date_of_incident)
+  from public.officials_reports r
+  where r.employee_number = trim(_employee_number)
+    and r.date_of_incident > _as_of - 365
+    and r.date_of_incident <= _as_of
+    and r.id is distinct from _exclude_report_id
+  group by r.subject_of_report
+  order by count(*) desc, r.subject_of_report;
+end;
+$$;
+
+create or replace function public.report_heatmap(
+  _from date,
+  _to date,
+  _garage text default null,
+  _subject text default null
+)
+returns table (
+  route text,
+  day_of_week integer,
+  hour integer,
+  reports integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.user_roles where user_id = auth.uid()) then
+    raise exception 'Only signed-in staff can view the heatmap' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    r.route,
+    extract(isodow from r.date_of_incident)::integer,
+    extract(hour from r.time_of_incident)::integer,
+    count(*)::integer
+  from public.officials_reports r
+  where r.date_of_incident between _from and _to
+    and (_garage is null or r.garage = _garage)
+    and (_subject is null or r.subject_of_report = _subject)
+  group by 1, 2, 3;
+end;
+$$;
@@ -0,0 +1,46 @@
+-- A report with an unknown or retired subject was stored with no severity and without
+-- the manager sign-off its subject may need, e.g. a queued offline report replayed
+-- after its subject was retired. Such reports are now rejected.
+create or replace function public.apply_report_subject_defaults()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _subject public.report_subjects;
+begin
+  select * into _subject from public.report_subjects s where s.name = new.subject_of_report;
+
+  if _subject.id is null or _subject.retired_at is not null then
+    raise exception '"%" is not a current subject of report', new.subject_of_report
+      using errcode = '23514';
+  end if;
+
+  new.severity := coalesce(new.severity, _subject.default_severity);
+  new.requires_manager_signoff := _subject.requires_manager_signoff;
+  return new;
+end;
+$$;
+
+-- Reports refer to their subject by name, so renaming a subject in use would drop its
+-- reports from the subject filter and from repeat alerts. Retire it and add a new one.
+create function public.prevent_report_subject_rename()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.name is distinct from old.name
+    and exists (select 1 from public.officials_reports where subject_of_report = old.name) then
+    raise exception '"%" is used by existing reports and cannot be renamed; retire it and add a new subject instead', old.name
+      using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger report_subjects_prevent_rename
+  before update of name on public.report_subjects
+  for each row execute function public.prevent_report_subject_rename();
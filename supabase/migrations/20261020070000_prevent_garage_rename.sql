@@ -0,0 +1,25 @@
+-- Reports and garage managers' roles refer to a garage by its name, so renaming a
+-- garage in use would cut its managers off from its reports and lose its email
+-- recipient, short code and CCTV retention for them. Make it inactive and add a new
+-- garage instead.
+create function public.prevent_garage_rename()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.name is distinct from old.name and (
+    exists (select 1 from public.officials_reports where garage = old.name)
+    or exists (select 1 from public.user_roles where garage = old.name)
+  ) then
+    raise exception '% is used by existing reports or garage managers and cannot be renamed; make it inactive and add a new garage instead', old.name
+      using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger garages_prevent_rename
+  before update of name on public.garages
+  for each row execute function public.prevent_garage_rename();
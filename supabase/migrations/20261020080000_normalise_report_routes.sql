@@ -0,0 +1,6 @@
+-- Reports from before route numbers were normalised still say "h 32" or "Route H32",
+-- which split one route across the dashboard and the heatmap.
+-- Keep in step with normalizeRouteNumber in src/lib/routes.ts.
+update public.officials_reports
+set route = regexp_replace(regexp_replace(upper(route), '^\s*ROUTE\M', ''), '[^A-Z0-9]', '', 'g')
+where route !~ '^[A-Z0-9]*$';
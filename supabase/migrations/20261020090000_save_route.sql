@@ -0,0 +1,43 @@
+-- Saves a route and replaces its garages in one transaction, so a failed garage
+-- insert no longer leaves the route with no garages. Runs as the caller, so the
+-- admin-only route policies still apply.
+create function public.save_route(_route jsonb, _garage_ids uuid[], _id uuid default null)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  _route_id uuid := _id;
+begin
+  if _route_id is null then
+    insert into public.routes (route_number, terminus_a, terminus_b, active_from, active_to)
+    select r.route_number, r.terminus_a, r.terminus_b, r.active_from, r.active_to
+    from jsonb_populate_record(null::public.routes, _route) as r
+    returning id into _route_id;
+  else
+    update public.routes o
+    set
+      route_number = r.route_number,
+      terminus_a = r.terminus_a,
+      terminus_b = r.terminus_b,
+      active_from = r.active_from,
+      active_to = r.active_to
+    from jsonb_populate_record(null::public.routes, _route) as r
+    where o.id = _route_id;
+
+    if not found then
+      raise exception 'Route not found' using errcode = 'P0002';
+    end if;
+  end if;
+
+  delete from public.route_garages where route_id = _route_id;
+
+  insert into public.route_garages (route_id, garage_id)
+  select _route_id, garage_id from unnest(coalesce(_garage_ids, '{}')) as garage_id;
+
+  return _route_id;
+end;
+$$;
+
+revoke all on function public.save_route(jsonb, uuid[], uuid) from public;
+grant execute on function public.save_route(jsonb, uuid[], uuid) to authenticated;
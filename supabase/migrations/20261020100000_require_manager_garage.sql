@@ -0,0 +1,4 @@
+-- A garage manager without a garage sees no reports. New and changed roles must name
+-- one; managers backfilled without a home garage are left for an admin to assign.
+alter table public.user_roles
+  add constraint user_roles_manager_garage_check check (role <> 'garage_manager' or garage is not null) not valid;
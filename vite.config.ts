@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { VitePWA } from "vite-plugin-pwa";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -14,6 +15,26 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    VitePWA({
+      registerType: "autoUpdate",
+      includeAssets: ["favicon.ico", "pwa-icon.svg", "lovable-uploads/*.png"],
+      manifest: {
+        name: "Officials Report",
+        short_name: "Officials Report",
+        description: "Submit and review First Bus officials reports",
+        theme_color: "#5e11a6",
+        background_color: "#fafafa",
+        display: "standalone",
+        icons: [
+          { src: "pwa-icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any maskable" },
+        ],
+      },
+      workbox: {
+        // The form shell and the First Bus logo are served from the cache when offline
+        globPatterns: ["**/*.{js,css,html,ico,png,svg}"],
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+      },
+    }),
   ].filter(Boolean),
   resolve: {
     alias: {